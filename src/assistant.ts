@@ -0,0 +1,64 @@
+import * as solver from './lib';
+import * as strategies from './strategies';
+
+/**
+ * Help for someone who's playing by hand, and only wants the solver looking over their shoulder. They
+ * make their own guesses, in whatever order they like, and tell the solver the scores they got. The
+ * solver keeps track of the codes that are still possible (a SolverSession does that already; see
+ * session.ts), and rates each guess against the best one that could have been made in its place.
+ *
+ * A guess is rated by the number of codes it would leave on average, before its score is known. That's
+ * the same measure as the "expected" strategy, which makes the best guess easy to find. How much the
+ * guess actually narrowed things down is reported too, though that's partly down to luck.
+ */
+
+/** How a guess did, compared with the best guess that could have been made in its place. */
+export type GuessRating = {
+    guess: string,
+    score: solver.Score,
+
+    /** The number of codes that could have been the answer before the guess, and after its score. */
+    before: number,
+    after: number,
+
+    /** The number of codes the guess would leave, on average and at worst, before its score is known. */
+    expected: number,
+    worst: number,
+
+    /** The guess that would have left the fewest codes on average, from every combination. */
+    best: { guess: string, expected: number, worst: number },
+
+    /** The best guess's expected codes left over, divided by this one's. 1 means it was as good as any. */
+    quality: number
+}
+
+/** The strategy that finds the best guess. See the top of this file. */
+const bestGuesses = solver.heuristicStrategy('expected', strategies.ratings.expected, 'all');
+
+/** The guess to suggest next, which is the best guess by the same measure that guesses are rated by. */
+export function suggest(context: solver.StrategyContext) {
+    return bestGuesses.nextGuess(context);
+}
+
+/** Rates a guess and the score it got, given everything known before it was made. */
+export function rateGuess(context: solver.StrategyContext, guess: string, score: solver.Score): GuessRating {
+    const { rules, remaining } = context;
+    const sizes = solver.partition(rules, guess, remaining);
+    const expected = strategies.ratings.expected(sizes, remaining.length);
+    const best = bestGuesses.rank!(context, 1)[0];
+
+    // the best guess can't be worse than this one, but it may have been guessed already.
+    const bestExpected = Math.min(best.rating, expected);
+    return {
+        guess,
+        score,
+        before: remaining.length,
+        after: solver.parePossibilities(rules, remaining, guess, score).length,
+        expected,
+        worst: solver.worstCase(sizes),
+        best: bestExpected < expected
+            ? { guess: best.guess, expected: best.rating, worst: best.worst }
+            : { guess, expected, worst: solver.worstCase(sizes) },
+        quality: bestExpected / expected
+    };
+}
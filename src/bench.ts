@@ -0,0 +1,125 @@
+import * as _ from 'lodash';
+import * as solver from './lib';
+import * as session from './session';
+
+/**
+ * Benchmarking. Plays a strategy and opener against every possible secret code, and summarizes how
+ * many guesses it took, in the same format as results.json. Results from two runs can be diffed to
+ * tell whether a change to the algorithm or the opener is a real improvement, or just noise.
+ */
+
+/** How many games took each number of attempts. */
+export type Frequencies = { [attempts: number]: number };
+
+/** The summary of a benchmark run. Older results only have the average and frequencies. */
+export type BenchResult = {
+    average: number,
+    frequencies: Frequencies,
+    worst?: number,
+    stddev?: number,
+    count?: number,
+
+    /** The secrets that needed the most guesses. */
+    hardest?: string[],
+
+    strategy?: string,
+
+    /** How long the whole run took, in milliseconds. */
+    time?: number
+}
+
+/** A set of benchmark results, keyed by the opener, as in results.json. See resultKey(). */
+export type BenchResults = { [key: string]: BenchResult };
+
+/** The comparison of one key that appears in both sets of results. */
+export type BenchDiff = {
+    key: string,
+    before: number,
+    after: number,
+    change: number,
+    worstChange: number,
+
+    /** Welch's t statistic for the change in average. */
+    t: number,
+
+    /** Whether the change is unlikely to be noise, at the 95% level. */
+    significant: boolean
+}
+
+/**
+ * The key for a result. Results for the default strategy are keyed by the opener alone, so they line up
+ * with the results.json that predates the other strategies.
+ */
+export function resultKey(opener: string, strategy: solver.Strategy) {
+    return strategy.name == solver.minimax.name ? opener : `${opener}@${strategy.name}`;
+}
+
+/** Solves a single secret, resolving with the number of attempts it took. */
+export async function solve(rules: solver.RuleSet, secret: string, options: session.SolverOptions) {
+    const answer = await session.loop(rules, {
+        guess: guess => Promise.resolve(solver.calculateScore(rules, guess, secret)),
+        solved: () => { }
+    }, options);
+    if (answer.answer != secret) {
+        throw new Error(`Invalid answer ${answer.answer}. The answer was: ${secret}`);
+    }
+    return answer.attempts;
+}
+
+/** Plays the strategy and opener against every possible secret, and summarizes the results. */
+export async function runBenchmark(rules: solver.RuleSet, options: session.SolverOptions): Promise<BenchResult> {
+    const start = Date.now();
+    const attempts: { [secret: string]: number } = {};
+    for (let secret of solver.getAllCombinations(rules)) {
+        attempts[secret] = await solve(rules, secret, options);
+    }
+
+    const result = summarize(attempts);
+    result.strategy = (options.strategy || solver.minimax).name;
+    result.time = Date.now() - start;
+    return result;
+}
+
+/** Summarizes the number of attempts taken for each secret. */
+export function summarize(attempts: { [secret: string]: number }): BenchResult {
+    const counts = _.values(attempts);
+    const worst = _.max(counts) || 0;
+    const frequencies: Frequencies = _.countBy(counts);
+    const { average, stddev, count } = describe(frequencies);
+    const hardest = Object.keys(attempts).filter(secret => attempts[secret] == worst);
+    return { average, frequencies, worst, stddev, count, hardest };
+}
+
+/** Computes the mean, standard deviation and count from a histogram, so older results can be compared too. */
+function describe(frequencies: Frequencies) {
+    const values = Object.keys(frequencies).map(k => ({ attempts: parseInt(k), count: frequencies[parseInt(k)] }));
+    const count = _.sumBy(values, v => v.count);
+    const average = _.sumBy(values, v => v.attempts * v.count) / count;
+    const variance = _.sumBy(values, v => v.count * Math.pow(v.attempts - average, 2)) / count;
+    return { average, stddev: Math.sqrt(variance), count, worst: _.max(values.map(v => v.attempts)) || 0 };
+}
+
+/**
+ * Compares every key that appears in both sets of results. A change counts as significant when
+ * Welch's t statistic is beyond 1.96, ie there's less than a 5% chance it came from noise alone.
+ */
+export function diffResults(before: BenchResults, after: BenchResults): BenchDiff[] {
+    return Object.keys(before)
+        .filter(key => after[key] != undefined)
+        .map(key => {
+            const b = describe(before[key].frequencies);
+            const a = describe(after[key].frequencies);
+            const error = Math.sqrt(b.stddev * b.stddev / b.count + a.stddev * a.stddev / a.count);
+            const change = a.average - b.average;
+            const t = error == 0 ? (change == 0 ? 0 : Infinity * Math.sign(change)) : change / error;
+            return {
+                key,
+                before: b.average,
+                after: a.average,
+                change,
+                worstChange: a.worst - b.worst,
+                t,
+                significant: Math.abs(t) > 1.96
+            };
+        });
+}
@@ -0,0 +1,100 @@
+import * as _ from 'lodash';
+import * as solver from './lib';
+
+/**
+ * An opening book. The first few guesses of a game only depend on the scores that came before them, so
+ * there's no need to work them out again for every game: the opener is always the same, and the second
+ * guess is one of a dozen or so, depending on the opener's score. A book records the guess the strategy
+ * makes after every sequence of guesses and scores, up to a given number of guesses into the game. A
+ * session with a book plays from it while it can, and only searches once the game goes past it.
+ *
+ * A book is only any good for the rules and strategy it was built with, so it records them, and
+ * bookMismatch() says why a book doesn't fit, so it can be rebuilt. Strategies are told apart by name,
+ * and a decision tree's name has a fingerprint of the tree in it (see optimal.treeStrategy()).
+ *
+ * Books assume every score is the truth. A session that tolerates wrong scores narrows things down
+ * differently, and doesn't use one.
+ */
+
+/** The format of the books written by this version. Books in any other format are rebuilt. */
+export const bookVersion = 1;
+
+/** The guesses to make after each sequence of guesses and scores, keyed by bookKey(). */
+export type OpeningBook = {
+    version: number,
+    rules: solver.RuleSet,
+    strategy: string,
+    opener: string,
+
+    /** The number of guesses into the game the book goes, counting the opener. */
+    depth: number,
+
+    moves: { [history: string]: string }
+}
+
+/** Options for building a book. */
+export type BookOptions = {
+    /** The number of guesses into the game to go. Defaults to 2: the opener, and the guess after it. */
+    depth?: number,
+
+    /** The first guess. Defaults to the strategy's opener, then the opener for the rules. */
+    opener?: string
+}
+
+/** A canonical form of the guesses and scores so far, ie "PYGO 1W2B, BGOR 2B". The first guess's key is "". */
+export function bookKey(history: solver.Turn[]) {
+    return history.map(turn => `${turn.guess} ${solver.scoreKey(turn.score)}`).join(", ");
+}
+
+/** Builds a book by playing the strategy against every score, up to the given depth. */
+export function buildBook(rules: solver.RuleSet, strategy: solver.Strategy, options: BookOptions = {}): OpeningBook {
+    const depth = options.depth || 2;
+    const opener = options.opener || strategy.opener || solver.getOpener(rules);
+    const scores = solver.getAllPossibleScores(rules);
+    const moves: { [history: string]: string } = {};
+
+    const explore = (history: solver.Turn[], remaining: string[]) => {
+        const guess = history.length == 0 ? opener : strategy.nextGuess({ rules, remaining, history });
+        moves[bookKey(history)] = guess;
+        if (history.length + 1 == depth)
+            return;
+
+        // every score the guess could get, other than the one that wins the game.
+        for (let score of scores) {
+            const left = solver.parePossibilities(rules, remaining, guess, score);
+            if (left.length && score.black != rules.length) {
+                explore(history.concat({ guess, score }), left);
+            }
+        }
+    };
+    explore([], solver.getAllCombinations(rules));
+
+    return { version: bookVersion, rules, strategy: strategy.name, opener, depth, moves };
+}
+
+/** The guess the book makes next, or undefined if the game has gone past it. */
+export function lookup(book: OpeningBook, history: solver.Turn[]): string | undefined {
+    return history.length < book.depth ? book.moves[bookKey(history)] : undefined;
+}
+
+/**
+ * Says why a book doesn't fit the rules and strategy, or the opener if one is given, or returns undefined
+ * if it does. A book that was tampered with, and has guesses the rules don't allow, doesn't fit either.
+ */
+export function bookMismatch(book: OpeningBook, rules: solver.RuleSet, strategy: solver.Strategy, opener?: string) {
+    // undefined fields don't survive a trip through JSON, so they don't count.
+    const defined = (r: solver.RuleSet) => _.omitBy(r, _.isUndefined);
+    if (book.version != bookVersion)
+        return `The book is in format ${book.version}, not ${bookVersion}.`;
+    if (!_.isEqual(defined(book.rules), defined(rules)))
+        return "The book was built for other rules.";
+    if (book.strategy != strategy.name)
+        return `The book was built for the ${book.strategy} strategy, not ${strategy.name}.`;
+    if (opener && book.opener != opener)
+        return `The book opens with ${book.opener}, not ${opener}.`;
+
+    const invalid = _.values(book.moves).find(guess => !solver.isValidCode(rules, guess));
+    if (invalid !== undefined || book.moves[""] != book.opener)
+        return `The book has guesses that can't be right, like ${invalid === undefined ? book.moves[""] : invalid}.`;
+    return undefined;
+}
@@ -0,0 +1,181 @@
+import * as _ from 'lodash';
+import * as solver from './lib';
+import * as session from './session';
+
+/**
+ * The other side of the game: the program hides a secret, and scores the guesses it's given. The
+ * secret can be picked at random, given outright, or be "adversarial". An adversarial codemaker
+ * never commits to a secret at all. It keeps every code that's consistent with the scores it has
+ * handed out, and answers each guess with whichever score keeps the most of them alive, so that
+ * the guesser has to work for every bit of information.
+ *
+ * A "deepest" codemaker is more evil still. It knows the strategy it's up against, and answers with
+ * whichever score leaves the strategy the most guesses to go, playing the game out in its head to
+ * find out. Played against the solver, that's the strategy's true worst case, found in a single game
+ * rather than by trying every secret. See forceWorstCase().
+ */
+
+/** 
+ * How the codemaker picks its secret: at random, adversarially (keeping the most codes alive), by 
+ * looking ahead to keep the strategy guessing the longest, or a specific code.
+ */
+export type SecretChoice = 'random' | 'adversarial' | 'deepest' | string;
+
+/** The longest game a codemaker could force, and the scores it gave to do it. */
+export type WorstCase = { attempts: number, answer: string, turns: solver.Turn[] };
+
+/** Thrown when a guess isn't a valid code for the rules. */
+export class InvalidGuessError extends Error {
+    readonly guess: string;
+
+    constructor(guess: string, rules: solver.RuleSet) {
+        super(`"${guess}" isn't a valid code. Codes are ${rules.length} of ${rules.colors.join("")}` +
+            (rules.blanks ? ` or ${solver.blank}` : "") + (rules.duplicates ? "." : ", with no repeats."));
+        this.guess = guess;
+    }
+}
+
+export class Codemaker {
+    readonly rules: solver.RuleSet;
+
+    /** The strategy a deepest codemaker expects to be up against. */
+    readonly strategy: solver.Strategy;
+
+    private deepest: boolean;
+
+    /** The secret, once it's been decided. An adversarial codemaker only decides when it has to. */
+    private secret?: string;
+
+    /** Every code that's consistent with the scores handed out so far. */
+    private consistent: string[];
+
+    private turns: solver.Turn[] = [];
+
+    constructor(rules: solver.RuleSet, choice: SecretChoice = 'random', strategy: solver.Strategy = solver.minimax) {
+        this.rules = rules;
+        this.strategy = strategy;
+        this.deepest = choice == 'deepest';
+        this.consistent = solver.getAllCombinations(rules);
+        if (choice == 'random') {
+            this.secret = solver.getRandomConfig(rules);
+        }
+        else if (choice != 'adversarial' && choice != 'deepest') {
+            const secret = choice.toUpperCase();
+            if (!solver.isValidCode(rules, secret)) {
+                throw new InvalidGuessError(choice, rules);
+            }
+            this.secret = secret;
+        }
+    }
+
+    /** Scores a guess, throwing an InvalidGuessError if it isn't a valid code. */
+    score(guess: string): solver.Score {
+        guess = guess.toUpperCase();
+        if (!solver.isValidCode(this.rules, guess)) {
+            throw new InvalidGuessError(guess, this.rules);
+        }
+        if (this.solved()) {
+            throw new Error("The code has already been cracked.");
+        }
+
+        const score = this.secret
+            ? solver.calculateScore(this.rules, guess, this.secret)
+            : this.evade(guess);
+
+        this.turns.push({ guess, score });
+        this.consistent = solver.parePossibilities(this.rules, this.consistent, guess, score);
+        return score;
+    }
+
+    /** Scores guesses through the same interface as the user, so the codemaker can play against the solver. */
+    guesser(): solver.Guesser {
+        return guess => Promise.resolve(this.score(guess));
+    }
+
+    /**
+     * Finds the earlier turns a guess contradicts: the ones whose score proves the guess can't be the
+     * answer. Useful for pointing out a wasted guess, or a misunderstanding of the scoring.
+     */
+    contradictions(guess: string): session.IndexedTurn[] {
+        guess = guess.toUpperCase();
+        return this.turns
+            .map((turn, index) => ({ ...turn, index }))
+            .filter(turn => !solver.scoreEquals(solver.calculateScore(this.rules, turn.guess, guess), turn.score));
+    }
+
+    /** The number of guesses scored so far. */
+    guesses() {
+        return this.turns.length;
+    }
+
+    /** Every guess scored so far, and its score. */
+    history() {
+        return this.turns.map(turn => ({ guess: turn.guess, score: { ...turn.score } }));
+    }
+
+    /** Whether the last guess was the secret. */
+    solved() {
+        const last = this.turns[this.turns.length - 1];
+        return last != undefined && last.score.black == this.rules.length;
+    }
+
+    /** Gives up the secret. An adversarial codemaker settles on the first code that's still consistent. */
+    reveal() {
+        return this.secret || this.consistent[0];
+    }
+
+    /**
+     * Picks the score that keeps the most codes consistent. Ties go to a score that isn't a win, then
+     * to the first score in order, so the codemaker is deterministic. Once only one code is left, it's
+     * the secret. A deepest codemaker first picks the score that leaves the strategy the most guesses
+     * to go, and only then the one that keeps the most codes.
+     */
+    private evade(guess: string) {
+        const win = solver.winningScore(this.rules);
+        const scores = solver.getAllPossibleScores(this.rules);
+        const sizes = solver.partition(this.rules, guess, this.consistent);
+        const depths = scores.map((score, i) => {
+            if (!this.deepest || sizes[i] == 0 || solver.scoreEquals(score, win))
+                return 0;
+            const remaining = solver.parePossibilities(this.rules, this.consistent, guess, score);
+            return this.depth(remaining, this.turns.concat({ guess, score }));
+        });
+        const best = _.maxBy(_.range(scores.length), i =>
+            depths[i] * (this.consistent.length + 1) + sizes[i] - (solver.scoreEquals(scores[i], win) ? 0.5 : 0))!;
+        if (sizes[best] == 1) {
+            this.secret = this.consistent.find(code => solver.scoreEquals(solver.calculateScore(this.rules, guess, code), scores[best]));
+        }
+        return scores[best];
+    }
+
+    /** 
+     * The most guesses the strategy could need to finish the game, once it's down to the remaining codes.
+     * Plays out every score the strategy's next guess could get.
+     */
+    private depth(remaining: string[], history: solver.Turn[]): number {
+        const guess = this.strategy.nextGuess({ rules: this.rules, remaining, history });
+        const sizes = solver.partition(this.rules, guess, remaining);
+        let worst = 1;
+        solver.getAllPossibleScores(this.rules).forEach((score, i) => {
+            if (sizes[i] == 0 || score.black == this.rules.length)
+                return;
+            const left = solver.parePossibilities(this.rules, remaining, guess, score);
+            worst = Math.max(worst, 1 + this.depth(left, history.concat({ guess, score })));
+        });
+        return worst;
+    }
+}
+
+/** 
+ * Plays the solver against an adversarial codemaker, and reports how long it was forced to go on. With
+ * "deepest", that's the strategy's worst case over every possible secret.
+ */
+export async function forceWorstCase(rules: solver.RuleSet, mode: 'largest' | 'deepest' = 'deepest',
+    options: session.SolverOptions = {}): Promise<WorstCase> {
+    const maker = new Codemaker(rules, mode == 'deepest' ? 'deepest' : 'adversarial', options.strategy);
+    const answer = await session.loop(rules, {
+        guess: maker.guesser(),
+        solved: () => { }
+    }, options);
+    return { attempts: answer.attempts, answer: answer.answer, turns: maker.history() };
+}
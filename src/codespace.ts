@@ -0,0 +1,165 @@
+import { FeedbackModel, scoreKey } from './feedback';
+import { RuleSet, Score } from './lib';
+
+/**
+ * The hot loop of the solver scores every candidate guess against every remaining code. With string
+ * codes, that means building a string key for every lookup, which is fine for 360 codes but hopeless
+ * for 32768 (8 colors, 5 pegs, repeats allowed). So internally, codes are integers: their index in
+ * the list of all combinations. Scores are integers too: their index in the feedback model's list of
+ * every score (see feedback.ts).
+ *
+ * For rule sets that aren't too large, every score is precomputed into a square table, so scoring is
+ * a single array lookup. Larger ones score on the fly. When the score is just a count of pegs, that's
+ * done from the digits and color counts of each code, which is still integer-only arithmetic; other
+ * feedback models have to score the strings. The string functions in lib.ts remain as a façade over this.
+ */
+
+/** Rule sets with more codes than this score on the fly, rather than with a table. 4096 codes is 16MB or more. */
+export const tableLimit = 4096;
+
+export class CodeSpace {
+    readonly rules: RuleSet;
+
+    /** Every combination, in the order of getAllCombinations(). A code's index here is its id. */
+    readonly codes: string[];
+
+    /** Every score, by id, in the order of getAllPossibleScores(). Some, like 1W3B with 4 slots, can't happen. */
+    readonly scores: Score[];
+
+    readonly model: FeedbackModel;
+
+    private index = new Map<string, number>();
+    private scoreIds = new Map<string, number>();
+
+    /** For counts of pegs, the id of each score packed as black * (length + 1) + white. */
+    private packed?: Int32Array;
+
+    /** The palette index of each slot, for each code: slots[code * length + slot]. */
+    private slots: Uint8Array;
+
+    /** The number of times each color appears, for each code: colorCounts[code * palette + color]. */
+    private colorCounts: Uint8Array;
+
+    private paletteSize: number;
+    private table?: Uint8Array | Uint16Array;
+
+    constructor(rules: RuleSet, codes: string[], palette: string[], model: FeedbackModel) {
+        this.rules = rules;
+        this.codes = codes;
+        this.model = model;
+        this.paletteSize = palette.length;
+
+        const n = codes.length;
+        const length = rules.length;
+        this.slots = new Uint8Array(n * length);
+        this.colorCounts = new Uint8Array(n * palette.length);
+        codes.forEach((code, id) => {
+            this.index.set(code, id);
+            for (let slot = 0; slot < length; slot++) {
+                const color = palette.indexOf(code[slot]);
+                this.slots[id * length + slot] = color;
+                this.colorCounts[id * palette.length + color]++;
+            }
+        });
+
+        this.scores = model.scores(rules);
+        this.scores.forEach((score, id) => this.scoreIds.set(scoreKey(score), id));
+        if (model.pegs) {
+            this.packed = new Int32Array((length + 1) * (length + 1)).fill(-1);
+            this.scores.forEach((score, id) => this.packed![score.black * (length + 1) + score.white] = id);
+        }
+
+        // Counts of pegs are symmetric, so only half of the table needs computing. Marks aren't.
+        if (n <= tableLimit) {
+            const table = this.scores.length <= 256 ? new Uint8Array(n * n) : new Uint16Array(n * n);
+            for (let a = 0; a < n; a++) {
+                for (let b = model.pegs ? a : 0; b < n; b++) {
+                    table[a * n + b] = this.computeScoreId(a, b);
+                    if (model.pegs) table[b * n + a] = table[a * n + b];
+                }
+            }
+            this.table = table;
+        }
+    }
+
+    /** The number of codes. */
+    get size() {
+        return this.codes.length;
+    }
+
+    /** The id of a code, or -1 if it isn't valid under the rules. */
+    indexOf(code: string) {
+        const id = this.index.get(code);
+        return id === undefined ? -1 : id;
+    }
+
+    /** The id of a score, or -1 if the feedback model never gives it. */
+    scoreIdOf(score: Score) {
+        const id = this.scoreIds.get(scoreKey(score));
+        return id === undefined ? -1 : id;
+    }
+
+    /** The id of the score between two codes, by id. */
+    scoreId(a: number, b: number) {
+        return this.table ? this.table[a * this.codes.length + b] : this.computeScoreId(a, b);
+    }
+
+    /** The score between two codes, by id. */
+    score(a: number, b: number) {
+        return this.scores[this.scoreId(a, b)];
+    }
+
+    /**
+     * Counts how many of the candidates fall into each score bucket against the guess, in a single
+     * pass. The buckets are indexed by score id, and are cleared first.
+     */
+    partition(guess: number, candidates: ArrayLike<number>, buckets: Int32Array) {
+        buckets.fill(0);
+        const table = this.table;
+        if (table) {
+            const row = guess * this.codes.length;
+            for (let i = 0; i < candidates.length; i++) {
+                buckets[table[row + candidates[i]]]++;
+            }
+        }
+        else {
+            for (let i = 0; i < candidates.length; i++) {
+                buckets[this.computeScoreId(guess, candidates[i])]++;
+            }
+        }
+        return buckets;
+    }
+
+    /** Converts codes to their ids. Codes that aren't valid under the rules are dropped. */
+    toIds(codes: string[]) {
+        const ids: number[] = [];
+        for (let code of codes) {
+            const id = this.index.get(code);
+            if (id !== undefined) ids.push(id);
+        }
+        return ids;
+    }
+
+    /**
+     * Scores two codes from scratch. For counts of pegs, black is the number of slots that match. The total
+     * number of pegs is, for each color, the smaller of the number of times it appears in either code; so
+     * white is whatever's left over once the blacks are taken out.
+     */
+    private computeScoreId(a: number, b: number) {
+        if (!this.packed)
+            return this.scoreIdOf(this.model.score(this.rules, this.codes[a], this.codes[b]));
+
+        const length = this.rules.length;
+        let black = 0;
+        for (let slot = 0; slot < length; slot++) {
+            if (this.slots[a * length + slot] == this.slots[b * length + slot]) black++;
+        }
+
+        let total = 0;
+        const p = this.paletteSize;
+        for (let color = 0; color < p; color++) {
+            total += Math.min(this.colorCounts[a * p + color], this.colorCounts[b * p + color]);
+        }
+        return this.packed[black * (length + 1) + (total - black)];
+    }
+}
@@ -0,0 +1,228 @@
+import * as _ from 'lodash';
+import { RuleSet, Score } from './lib';
+
+/**
+ * The ways a guess can be scored. Mastermind only counts pegs: the number in the right place (black),
+ * and the number of the right color in the wrong place (white). Other puzzles in the family score
+ * differently, but everything the solver does only needs four things from a scoring system: scoring
+ * a guess against a code, listing every score there is, and reading and writing them. So that's what a
+ * FeedbackModel is, and the rules for a game pick one by name.
+ *
+ *  - mastermind: black and white pegs, written as 1W2B.
+ *  - bulls:      Bulls & Cows. The same counts as Mastermind, but the codes are usually digits, and
+ *                it's written as 2B1C for 2 bulls (right place) and 1 cow (wrong place).
+ *  - positional: a mark for every slot, like Wordle. "+" for the right color in the right place, "~"
+ *                for a color that's elsewhere, and "." for a color that isn't there at all.
+ *
+ * Every score still has white and black counts, so that anything that only cares about those works
+ * for every model. The positional model adds the marks, which is what tells its scores apart.
+ */
+
+/** A system of scoring guesses. See the top of this file. */
+export type FeedbackModel = {
+    name: string,
+
+    /** Whether a score is nothing more than its counts, so it can be worked out from color counts alone. */
+    pegs: boolean,
+
+    /** Scores a guess against a code that could be the answer. */
+    score: (rules: RuleSet, guess: string, code: string) => Score,
+
+    /** Every score there is, in order. Some may not be possible. */
+    scores: (rules: RuleSet) => Score[],
+
+    /** Parses a score the way it's written, without checking it against any codes. */
+    parse: (input: string, rules: RuleSet) => Score | ScoreError,
+
+    /** Writes a score the way it's parsed. Never empty. */
+    print: (score: Score) => string
+}
+
+/** The reasons a score can be rejected by tryParseScore(). */
+export type ScoreErrorKind = 'empty' | 'malformed' | 'duplicate' | 'range' | 'impossible';
+
+/** A score that couldn't be parsed, or doesn't make sense for the game. */
+export class ScoreError extends Error {
+    readonly kind: ScoreErrorKind;
+    readonly input: string;
+
+    constructor(kind: ScoreErrorKind, input: string, message: string) {
+        super(message);
+        this.kind = kind;
+        this.input = input;
+    }
+}
+
+/** A canonical form of a score, for use as a key. Unlike printScore(), it's never empty. */
+export function scoreKey(score: Score) {
+    return score.marks || `${score.white}W${score.black}B`;
+}
+
+/** Scores two combinations by counting pegs. */
+function countPegs(rules: RuleSet, guess: string, possibility: string) {
+    // Get all indices in the strings that don't exactly match.
+    const nonMatchingIndices = _.range(rules.length).filter(i => guess[i] != possibility[i]);
+
+    // Filter out the exact matches leaving us with arrays of strings that may match, but the positional data
+    // is unimportant at this point.
+    const g = nonMatchingIndices.map(i => guess[i]);
+    const p = nonMatchingIndices.map(i => possibility[i]);
+
+    // white is the number of non-matching indices where there exists at least one matching entry in p
+    // for every entry in g. If the "No two slots can have the same color simultaneously" rule
+    // is not in place, this calculation becomes more complex, because of the following situation:
+    // "BBOO" vs "OOBG". The simple version would erroneously report the score as 4W, because
+    // it would match both B's in the first with the single B in the second. Instead the correct
+    // answer is 3W, as you're supposed to cross out the eliminated items as you run across them.
+    const white = rules.duplicates || rules.blanks
+        ? countCrossedOut(g, p)
+        : g.filter(x => p.indexOf(x) != -1).length;
+
+    // black is the number of items that matched; ie len(guess) - len(nonmatching)
+    return { white, black: guess.length - nonMatchingIndices.length };
+}
+
+/** Counts the entries of g that can be matched to an entry of p, crossing out each entry of p once it's been used. */
+function countCrossedOut(g: string[], p: string[]) {
+    const left = p.slice();
+    let count = 0;
+    for (let x of g) {
+        const index = left.indexOf(x);
+        if (index != -1) {
+            left.splice(index, 1);
+            count++;
+        }
+    }
+    return count;
+}
+
+/** Permutates a list of all possible peg counts that can exist. */
+function getAllPegCounts(rules: RuleSet) {
+    // Scores are of the form xWyB, where the sum of x+y can be at most "combinationlength", and at least 0.
+    // Therefore, iterate through the number 0..combinationlength, and for each sum, calculate
+    // the permutations of scores that equal that sum.
+    // For example, getScoresForSum(3) returns: {0,3}, {1,2}, {2,1}, {3,0}.
+    // Concatenate all permutations and we have all valid scores.
+    return _.range(0, rules.length + 1)
+        .map(sum => getScoresForSum(sum))
+        .reduce((p, c) => p.concat(c), []);
+}
+
+/** Permutates a list of all possible scores that have the given sum. */
+function getScoresForSum(sum: number) {
+    return _.range(0, sum + 1)
+        .map(white => { return { white, black: sum - white } });
+}
+
+/**
+ * Parses peg counts, ie "1W2B", given the letters for white and black. Rejects anything that isn't
+ * well-formed, such as "5b" or "3b1w" with 4 slots, or "2w2w".
+ */
+function parsePegCounts(input: string, rules: RuleSet, whiteLetter: string, blackLetter: string, print: (score: Score) => string) {
+    const text = input.trim().toLowerCase();
+    const zero = print({ white: 0, black: 0 });
+    if (text.length == 0) {
+        return new ScoreError('empty', input, `No score was entered. For no matches at all, enter ${zero}.`);
+    }
+    if (!new RegExp(`^(\\s*\\d+\\s*[${whiteLetter}${blackLetter}])+\\s*$`).test(text)) {
+        return new ScoreError('malformed', input, `"${input}" isn't a score. Scores look like ${print({ white: 1, black: 2 })}, ${print({ white: 0, black: 2 })}, or ${zero}.`);
+    }
+
+    // Pull out each count, making sure nothing was given twice.
+    const counts: { [letter: string]: number } = {};
+    const pattern = new RegExp(`(\\d+)\\s*([${whiteLetter}${blackLetter}])`, 'g');
+    let match: RegExpExecArray | null;
+    while (match = pattern.exec(text)) {
+        if (counts[match[2]] !== undefined) {
+            return new ScoreError('duplicate', input, `"${input}" gives the ${match[2] == whiteLetter ? "white" : "black"} count more than once.`);
+        }
+        counts[match[2]] = parseInt(match[1]);
+    }
+
+    // With n slots, there can only be n pegs in total. And n-1 blacks means the last slot is either
+    // right or wrong, it can't be in the wrong place.
+    const score = { white: counts[whiteLetter] || 0, black: counts[blackLetter] || 0 };
+    if (score.white + score.black > rules.length || (score.black == rules.length - 1 && score.white == 1)) {
+        return new ScoreError('range', input, `${print(score)} can't happen with ${rules.length} slots.`);
+    }
+    return score;
+}
+
+/** Black and white pegs. The original, and the default. */
+export const mastermind: FeedbackModel = {
+    name: 'mastermind',
+    pegs: true,
+    score: countPegs,
+    scores: getAllPegCounts,
+    parse: (input, rules) => parsePegCounts(input, rules, 'w', 'b', mastermind.print),
+    print: score => (score.white ? score.white + "W" : "") + (score.black ? score.black + "B" : "") || "0W0B"
+};
+
+/** Bulls & Cows: bulls are black pegs, and cows are white ones. */
+export const bullsAndCows: FeedbackModel = {
+    name: 'bulls',
+    pegs: true,
+    score: countPegs,
+    scores: getAllPegCounts,
+    parse: (input, rules) => parsePegCounts(input, rules, 'c', 'b', bullsAndCows.print),
+    print: score => `${score.black}B${score.white}C`
+};
+
+/** The marks for each slot in the positional model. */
+export const marks = { exact: '+', present: '~', absent: '.' };
+
+/**
+ * A mark for every slot, like Wordle. Exact matches are marked first. Then, from left to right, a color
+ * is marked present if the code has more of it than have been marked already.
+ */
+export const positional: FeedbackModel = {
+    name: 'positional',
+    pegs: false,
+    score: (rules, guess, code) => {
+        const result = _.range(rules.length).map(i => guess[i] == code[i] ? marks.exact : marks.absent);
+        const left = _.range(rules.length).filter(i => guess[i] != code[i]).map(i => code[i]);
+        _.range(rules.length).forEach(i => {
+            const index = result[i] == marks.absent ? left.indexOf(guess[i]) : -1;
+            if (index != -1) {
+                left.splice(index, 1);
+                result[i] = marks.present;
+            }
+        });
+        return {
+            white: result.filter(m => m == marks.present).length,
+            black: result.filter(m => m == marks.exact).length,
+            marks: result.join('')
+        };
+    },
+    scores: rules => {
+        // every combination of marks, from nothing at all through to a win.
+        let all = [""];
+        for (let i = 0; i < rules.length; i++) {
+            all = _.flatMap(all, prefix => [marks.absent, marks.present, marks.exact].map(m => prefix + m));
+        }
+        return all.map(m => ({
+            white: m.split(marks.present).length - 1,
+            black: m.split(marks.exact).length - 1,
+            marks: m
+        }));
+    },
+    parse: (input, rules) => {
+        const text = input.replace(/\s/g, '');
+        if (text.length == 0) {
+            return new ScoreError('empty', input, `No score was entered. For no matches at all, enter ${_.repeat(marks.absent, rules.length)}.`);
+        }
+        if (text.length != rules.length || !text.split('').every(m => m == marks.exact || m == marks.present || m == marks.absent)) {
+            return new ScoreError('malformed', input, `"${input}" isn't a score. Scores have a mark for each of the ${rules.length} slots: ` +
+                `"${marks.exact}" for the right place, "${marks.present}" for the wrong place, and "${marks.absent}" for a miss.`);
+        }
+        return positional.scores(rules).find(score => score.marks == text)!;
+    },
+    print: score => score.marks || ""
+};
+
+/** The feedback models, by the name used to select them in the rules. */
+export const feedbackModels: { [name: string]: FeedbackModel } = {
+    mastermind,
+    bulls: bullsAndCows,
+    positional
+};
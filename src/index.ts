@@ -1,5 +1,18 @@
+import * as fs from 'fs';
+import * as _ from 'lodash';
+import * as assistant from './assistant';
+import * as book from './book';
 import * as readline from 'readline';
+import * as bench from './bench';
+import * as codemaker from './codemaker';
 import * as solver from './lib';
+import * as multilock from './multilock';
+import * as optimal from './optimal';
+import * as server from './server';
+import * as session from './session';
+import * as statics from './static';
+import * as strategies from './strategies';
+import * as transcript from './transcript';
 
 
 /**
@@ -51,22 +64,192 @@ import * as solver from './lib';
  * I could have designed it as a pure function, and thought about it a lot. I decided against it
  * because the function would require the consumer of the library to maintain a whole lot of state
  * information on their own for each new score input. Using this "delegate" method, the state is 
- * maintained entirely within closures of the "loop" function, and consumers of the library won't
- * have to deal with large sets of pared-down possibilities and used guesses, and so forth. 
+ * maintained entirely within the "loop" function, and consumers of the library won't have to deal 
+ * with large sets of pared-down possibilities and used guesses, and so forth. These days that state 
+ * lives in a SolverSession (see session.ts), which the loop wraps. Consumers that want to drive the
+ * game themselves, undo a score, or save a game and resume it later can use the session directly.
  * 
  * One caveat, of course, is that the solver can fail to come to a solution if an incorrect score
- * is entered by the user. There is no way to solve this. As they say, Garbage-in, Garbage-out. 
- * So please do be mindful of your inputs. 
+ * is entered by the user. As they say, Garbage-in, Garbage-out. So please do be mindful of your 
+ * inputs. The solver does at least notice when a score contradicts the earlier ones, and asks which 
+ * one was mistyped so it can be corrected. Running with "--tolerance=1" goes further, and allows
+ * for one wrong score without being told about it.
+ * 
+ * With larger rule sets, a guess can take a while to work out. "--budget=500" limits each one to
+ * half a second, after which the solver makes the best guess it's found so far.
+ * 
+ * Both modes play the original lock challenge by default. Another rule set can be selected by name
+ * with "--rules=classic" (6 colors, 4 pegs, repeats allowed) or "--rules=super" (8 colors, 5 pegs).
+ * "--rules=bulls" plays Bulls & Cows, and "--rules=positional" marks every slot like Wordle does. 
+ * They're scored differently, so scores are entered differently too (see feedback.ts).
+ * The strategy used to pick each guess can be selected with "--strategy=entropy:all" and the like
+ * (see strategies.ts), and the starting move with "--opener=BGOR".
+ * 
+ * There's also a third mode, "optimal", which doesn't play at all. It searches for a complete 
+ * decision tree (see optimal.ts), reports how it performs, and saves it with "--out=tree.json".
+ * Either of the other modes can then play that tree instead of a greedy strategy, with 
+ * "--tree=tree.json".
+ * 
+ * Finally, "bench" is a reproducible version of the testing mode. It runs a set of openers and
+ * strategies over every secret, ie "bench --openers=PYGO,BGOR --strategies=minimax,entropy", and 
+ * saves the results in the format of results.json with "--out=results.json". "--openers=all" sweeps
+ * every possible starting move. "bench diff before.json after.json" compares two result files,
+ * so that a real improvement can be told apart from noise before the default opener is changed.
+ * 
+ * The "play" mode swaps the roles around: the program hides a secret, and scores the guesses the
+ * user types in. "--secret=adversarial" makes the program avoid committing to a secret for as long
+ * as it can, and "--hints" points out any guess that contradicts the scores given so far.
+ * "--secret=deepest" goes further, and looks ahead to keep the solver's strategy guessing longest.
+ * That adversary can play the solver too: "auto --adversary=deepest" finds the strategy's worst
+ * case in a single game, and shows the scores that force it. "--adversary=largest" just keeps the
+ * most codes alive at every turn, which is cheaper, but can fall short of the worst case.
+ * 
+ * In "assist" mode, the user does the guessing, and the solver only helps. Each guess is entered along
+ * with its score, ie "BGOR 1W2B", and the solver rates it against the best guess that could have been
+ * made instead, and keeps count of the codes that are left. "?" asks it for a suggestion.
+ * 
+ * For locks that take every guess at once, "static" searches for a fixed batch of probes whose scores
+ * identify any code (see static.ts), and saves it with "--out=plan.json". "--adaptive" allows one more
+ * guess after the scores come back, which makes for a smaller batch. "static --plan=plan.json" then
+ * asks for the score of every probe, and works out the code from them.
+ * 
+ * When a batch of locks is tested together, "multi --locks=3" solves them all at once: each guess is
+ * tried on every lock, and a score is entered for each one that isn't solved yet (see multilock.ts).
+ * "--objective=worst" chooses guesses for the lock that's furthest from solved, rather than for the
+ * total. "--secrets=random", or a list like "--secrets=PYGO,BGOR", has the program score them itself.
+ * 
+ * Every game starts the same way, so "book --out=book.json --depth=3" saves the guesses the strategy
+ * makes for the first few turns (see book.ts), and "--book=book.json" plays from them instead of working
+ * them out again every game. A book that was built for other rules or another strategy is rebuilt.
+ * 
+ * And for other tools, "serve --port=8080" runs a small HTTP/JSON API over solver sessions. See
+ * server.ts for the endpoints. Sessions expire after "--ttl" minutes of disuse, 30 by default.
+ * 
+ * Games in the normal and testing modes can be recorded with "--transcript=games.jsonl" (see 
+ * transcript.ts). "replay games.jsonl" plays them back, and points out any game where the solver 
+ * would now guess differently. Give it "--strategy" or "--tree" to try another strategy on old games.
+ * 
+ * And when a guess seems odd, "--explain" shows the reasoning behind each one: how it splits up the 
+ * codes that are left, the next best guesses, and the codes themselves once there are only a few.
  */
 
 
+/** Gets the value of a "--name=value" command line option, if it was provided. */
+function getOption(name: string) {
+    const prefix = `--${name}=`;
+    const arg = process.argv.find(a => a.startsWith(prefix));
+    return arg ? arg.substr(prefix.length) : undefined;
+}
+
+/** Determines whether a "--name" flag was provided on the command line. */
+function hasFlag(name: string) {
+    return process.argv.indexOf(`--${name}`) != -1;
+}
+
+/** The rules of the game being played, as selected on the command line. */
+const rulesName = getOption("rules") || "lock";
+const rules = solver.ruleSets[rulesName];
+if (!rules) {
+    console.log(`Unknown rules "${rulesName}". Valid rules are: ${Object.keys(solver.ruleSets).join(", ")}`);
+    process.exit(1);
+}
+
+/** 
+ * The strategy and opener, as selected on the command line. A decision tree is checked against
+ * the rules before it's used, and the selected strategy takes over if the game leaves the tree.
+ */
+const strategy = strategies.createStrategy(getOption("strategy") || "minimax");
+const treeFile = getOption("tree");
+const options: session.SolverOptions = {
+    strategy: treeFile ? loadTree(treeFile, strategy) : strategy,
+    opener: getOption("opener"),
+    tolerance: parseInt(getOption("tolerance") || "0"),
+    budget: getOption("budget") ? parseInt(getOption("budget")!) : undefined
+};
+const bookFile = getOption("book");
+if (bookFile) {
+    options.book = loadBook(bookFile);
+}
+
+/** Records every game to the transcript file from the command line, if one was given. */
+const transcriptFile = getOption("transcript");
+function withTranscript(delegates: session.Delegates) {
+    return transcriptFile
+        ? transcript.recordTranscript(rules, options, delegates, line => fs.appendFileSync(transcriptFile, line + "\n"))
+        : delegates;
+}
+
+/** 
+ * Loads the opening book for the rules and strategy, building it and saving it to the file if there
+ * isn't one yet, or if the one there was built for something else.
+ */
+function loadBook(file: string) {
+    if (fs.existsSync(file)) {
+        const saved: book.OpeningBook = JSON.parse(fs.readFileSync(file, 'utf8'));
+        const mismatch = book.bookMismatch(saved, rules, options.strategy!, options.opener);
+        if (!mismatch) {
+            return saved;
+        }
+        console.log(`${mismatch} Rebuilding the opening book in ${file}...`);
+        return saveBook(file, saved.depth);
+    }
+    return saveBook(file);
+}
+
+/** 
+ * Builds an opening book for the rules and strategy from the command line, and saves it to the file. The
+ * depth on the command line wins over the one given.
+ */
+function saveBook(file: string, depth?: number) {
+    const start = Date.now();
+    const built = book.buildBook(rules, options.strategy!, {
+        depth: getOption("depth") ? parseInt(getOption("depth")!) : depth,
+        opener: options.opener
+    });
+    fs.writeFileSync(file, JSON.stringify(built, null, 2));
+    console.log(`Saved an opening book of ${Object.keys(built.moves).length} positions, ${built.depth} guesses deep, ` +
+        `to ${file}. (${Date.now() - start}ms)`);
+    return built;
+}
+
+function loadTree(file: string, fallback: solver.Strategy) {
+    const tree: optimal.DecisionTree = JSON.parse(fs.readFileSync(file, 'utf8'));
+    const report = optimal.evaluateTree(rules, tree);
+    console.log(`Playing the decision tree in ${file}. Average solve length: ${report.average}, maximum: ${report.worst}`);
+    return optimal.treeStrategy(tree, fallback);
+}
+
+
+/** 
+ * Prints why a guess was chosen: how the remaining codes would split up by its score, what else was 
+ * considered, and what the answer could be when it's down to a handful of codes.
+ */
+function printExplanation(explanation: solver.Explanation) {
+    console.log(`${explanation.remaining} codes could be the answer. ${explanation.guess} splits them up by score:`);
+    explanation.partition
+        .filter(group => group.size > 0)
+        .forEach(group => console.log(`  ${_.padEnd(solver.formatScore(rules, group.score), 6)}${group.size}`));
+    if (explanation.runnersUp.length) {
+        console.log("Runners-up: " + explanation.runnersUp.map(g => `${g.guess} (worst case ${g.worst})`).join(", "));
+    }
+    if (explanation.candidates) {
+        console.log("It could be: " + explanation.candidates.join(" "));
+    }
+}
+
 /** Base methods for all methods of communicating information to the user. */
 const baseDelegates = {
     error: (error: any) => {
-        console.log(error);
+        console.log(error instanceof session.SolverError ? error.message : error);
     },
     solved: (answer: solver.Answer) => {
         console.log(`The answer is: ${answer.answer}, and I found it in ${answer.attempts} tries.`);
+    },
+    explain: hasFlag("explain") ? printExplanation : undefined,
+    event: (event: session.SolverEvent) => {
+        if (event.type == 'guess' && !event.complete) {
+            console.log(`Out of time, so this is the best guess I found in ${options.budget}ms:`);
+        }
     }
 }
 
@@ -76,7 +259,7 @@ const baseDelegates = {
  * to test the iterative algorithm optimizations I've made.
  */
 type TestDelegates = {
-    (testAnswer: string, done: (attempts: number) => void): solver.Delegates;
+    (testAnswer: string, done: (attempts: number) => void): session.Delegates;
 }
 const testDelegates: TestDelegates = (testAnswer, done) => {
     return {
@@ -85,8 +268,8 @@ const testDelegates: TestDelegates = (testAnswer, done) => {
             // in lieu of user input, just calculate the score on our own using our predetermined test answer,
             // and let the solver know. 
             console.log(guess);
-            const score = solver.calculateScore(testAnswer, guess);
-            console.log("response> " + solver.printScore(score));
+            const score = solver.calculateScore(rules, guess, testAnswer);
+            console.log("response> " + solver.formatScore(rules, score));
             return Promise.resolve(score);
         },
         solved: (answer) => {
@@ -104,21 +287,50 @@ const testDelegates: TestDelegates = (testAnswer, done) => {
     }
 }
 
+/** 
+ * Asks the user for a score until they enter one that makes sense, explaining what was wrong with
+ * anything that doesn't. If the guess and remaining codes are given, the score must be possible too.
+ */
+function askScore(rl: readline.ReadLine, prompt: string, guess?: string, remaining?: string[], scoring = rules) {
+    return new Promise<solver.Score>((resolve, _reject) => {
+        const ask = () => rl.question(prompt, input => {
+            const score = solver.tryParseScore(input, scoring, guess, remaining);
+            if (score instanceof solver.ScoreError) {
+                console.log(score.message);
+                ask();
+            }
+            else {
+                resolve(score);
+            }
+        });
+        ask();
+    });
+}
+
 /** 
  * For the meat of the program, we use the readline library to read inputs from a live user.
  * The program was designed in such a way that the input is abstracted around a promise, allowing
  * us to call the program using both live input, and iterative test data without any alterations. 
  */
-type ConsoleDelegates = (rl: readline.ReadLine) => solver.Delegates;
+type ConsoleDelegates = (rl: readline.ReadLine) => session.Delegates;
 const consoleDelegates: ConsoleDelegates = rl => {
     return {
         ...baseDelegates,
         guess: (guess) => {
+            // a score no code could give is still let through, so the session rejects it with the turns it
+            // contradicts, and the user gets to say which one was mistyped.
+            console.log(guess);
+            return askScore(rl, "response> ");
+        },
+        contradiction: (error) => {
             return new Promise((resolve, _reject) => {
-                console.log(guess);
-                rl.question("response> ", input => {
-                    const score = solver.parseScore(input);
-                    resolve(score);
+                // offer to correct any of the turns involved. Anything else means the latest one.
+                console.log(error.message);
+                const turns = error.conflicts.concat(error.turn).map(t => t.index + 1);
+                rl.question(`Which turn was wrong? (${turns.join(", ")})> `, input => {
+                    const turn = parseInt(input);
+                    const index = turns.indexOf(turn) != -1 ? turn - 1 : error.turn.index;
+                    askScore(rl, `corrected response for #${index + 1}> `).then(score => resolve({ index, score }));
                 });
             });
         },
@@ -160,12 +372,388 @@ function nextAttempt(left: string[], moves = 0, total = left.length, frequencies
         frequencies[attempts] = (frequencies[attempts] || 0) + 1;
         nextAttempt(left, moves + attempts, total, frequencies);
     });
-    solver.loop(delegates);
+    // the error delegate has already reported what went wrong. An invalid answer means stop right here.
+    session.loop(rules, withTranscript(delegates), options).catch(() => process.exitCode = 1);
+}
+
+/** Searches for a decision tree that meets the objective and bound from the command line, and saves it. */
+function findOptimalTree() {
+    const objective = getOption("objective") == "average" ? "average" : "worst";
+    const bound = getOption("bound");
+    const width = getOption("width");
+
+    console.log(`Searching for a decision tree that minimizes the ${objective} case` + (bound ? `, with at most ${bound} guesses...` : "..."));
+    const start = Date.now();
+    const tree = optimal.buildDecisionTree(rules, {
+        objective,
+        maxDepth: bound ? parseInt(bound) : undefined,
+        width: width ? parseFloat(width) : undefined,
+        opener: getOption("opener")
+    });
+
+    if (!tree) {
+        console.log(`No decision tree can solve every code in ${bound} guesses. (${Date.now() - start}ms)`);
+        return;
+    }
+
+    const report = optimal.evaluateTree(rules, tree);
+    console.log(`Found a tree starting with ${tree.guess} in ${Date.now() - start}ms.`);
+    console.log("Average solve length: " + report.average);
+    console.log("Maximum solve length: " + report.worst);
+    console.log("Frequencies: " + JSON.stringify(report.frequencies));
+
+    const out = getOption("out");
+    if (out) {
+        fs.writeFileSync(out, JSON.stringify(tree));
+        console.log(`Saved the tree to ${out}.`);
+    }
 }
 
-if (process.argv.indexOf("auto") != -1) {
-    // Auto mode. Solve for all combinations. 
-    nextAttempt(solver.getAllCombinations());
+/** Runs every selected opener with every selected strategy, and saves the results. */
+async function runBenchmarks() {
+    // A decision tree only makes sense with its own opener.
+    const strategyList = treeFile
+        ? [options.strategy!]
+        : (getOption("strategies") || getOption("strategy") || "minimax").split(",").map(strategies.createStrategy);
+    const openerList = getOption("openers") || getOption("opener") || strategyList[0].opener || solver.getOpener(rules);
+    const openers = openerList == "all" ? solver.getAllCombinations(rules) : openerList.split(",");
+
+    const results: bench.BenchResults = {};
+    for (let strategy of strategyList) {
+        for (let opener of openers) {
+            const key = bench.resultKey(opener, strategy);
+            const result = await bench.runBenchmark(rules, { strategy, opener });
+            console.log(`${key}: average ${result.average.toFixed(4)}, worst ${result.worst} (${result.hardest!.join(" ")}), ` +
+                `stddev ${result.stddev!.toFixed(4)}, ${result.time}ms`);
+            results[key] = result;
+        }
+    }
+
+    const out = getOption("out");
+    if (out) {
+        fs.writeFileSync(out, JSON.stringify(results, null, 2));
+        console.log(`Saved the results to ${out}.`);
+    }
+}
+
+/** Compares two result files, and prints the change for each key they share. */
+function diffBenchmarks(beforeFile: string, afterFile: string) {
+    const before: bench.BenchResults = JSON.parse(fs.readFileSync(beforeFile, 'utf8'));
+    const after: bench.BenchResults = JSON.parse(fs.readFileSync(afterFile, 'utf8'));
+    const diffs = bench.diffResults(before, after);
+    if (diffs.length == 0) {
+        console.log("The result files have nothing in common to compare.");
+    }
+    for (let diff of diffs) {
+        const sign = diff.change > 0 ? "+" : "";
+        const verdict = diff.change == 0 ? "no change" : diff.significant ? (diff.change < 0 ? "IMPROVED" : "WORSE") : "noise";
+        console.log(`${diff.key}: ${diff.before.toFixed(4)} -> ${diff.after.toFixed(4)} (${sign}${diff.change.toFixed(4)}, ` +
+            `worst ${diff.worstChange > 0 ? "+" : ""}${diff.worstChange}, t=${diff.t.toFixed(2)}) ${verdict}`);
+    }
+}
+
+/** 
+ * Replays every game in a transcript, and reports whether the solver still plays them the same way. 
+ * Exits with an error if any of them diverged, so a set of transcripts can serve as a regression test.
+ */
+function replayTranscripts(file: string) {
+    const games = transcript.parseTranscripts(fs.readFileSync(file, 'utf8'));
+    const strategy = getOption("strategy") || treeFile ? options.strategy : undefined;
+    let diverged = 0;
+    games.forEach((game, i) => {
+        const report = transcript.replay(game, strategy);
+        const { recorded, replayed, divergence } = report;
+        if (!divergence) {
+            console.log(`Game ${i + 1}: the same ${report.matched} guesses` + (recorded ? `, solving ${recorded.answer} in ${recorded.attempts}.` : "."));
+            return;
+        }
+
+        diverged++;
+        console.log(`Game ${i + 1}: diverged at turn #${divergence.index + 1}. It guessed ${divergence.recorded.guess} ` +
+            `with ${divergence.recorded.remaining} codes left, but would now guess ${divergence.replayed.guess} with ${divergence.replayed.remaining}.` +
+            (recorded && replayed ? ` It now takes ${replayed.attempts} guesses instead of ${recorded.attempts}.` : ""));
+    });
+
+    console.log(`${games.length - diverged} of ${games.length} games replayed the same.`);
+    if (diverged) {
+        process.exitCode = 1;
+    }
+}
+
+/** 
+ * Plays the solver against a codemaker that never commits to a secret, and reports the number of guesses
+ * it was forced to make, along with the scores that forced them.
+ */
+async function forceWorstCase(mode: string) {
+    if (mode != "largest" && mode != "deepest") {
+        console.log(`Unknown adversary "${mode}". Valid adversaries are: largest, deepest`);
+        return;
+    }
+
+    const start = Date.now();
+    const worst = await codemaker.forceWorstCase(rules, mode, options);
+    worst.turns.forEach((turn, i) => console.log(`#${i + 1} ${turn.guess} ${solver.formatScore(rules, turn.score)}`));
+    console.log(`The ${mode} adversary forced ${worst.attempts} guesses, ending with ${worst.answer}. (${Date.now() - start}ms)`);
+}
+
+/** Searches for a batch of probes that identifies any code, checks it, and saves it. */
+function findStaticPlan() {
+    const adaptive = hasFlag("adaptive");
+    const width = getOption("width");
+    console.log(`Searching for a batch of probes that identifies any code` + (adaptive ? ", with one final guess..." : "..."));
+    const start = Date.now();
+    const plan = statics.findStaticPlan(rules, {
+        adaptive,
+        width: width ? parseInt(width) : undefined,
+        maxProbes: getOption("max") ? parseInt(getOption("max")!) : undefined
+    });
+    if (!plan) {
+        console.log(`No batch of probes was found. (${Date.now() - start}ms)`);
+        return;
+    }
+
+    const report = statics.verifyPlan(plan);
+    console.log(`Found ${plan.probes.length} probes in ${Date.now() - start}ms: ${plan.probes.join(" ")}`);
+    console.log(`Verified against all ${report.codes} codes, with ${report.failures.length} failures. ` +
+        `${report.adaptive} of them need a final guess, for at most ${report.guesses} guesses in all.`);
+
+    const out = getOption("out");
+    if (out) {
+        fs.writeFileSync(out, JSON.stringify(plan, null, 2));
+        console.log(`Saved the plan to ${out}.`);
+    }
+}
+
+/** Works out a code from the scores for a plan's probes, asking for each one in turn. */
+async function decodeStaticPlan(rl: readline.ReadLine, file: string) {
+    const plan: statics.StaticPlan = JSON.parse(fs.readFileSync(file, 'utf8'));
+    console.log(`Submit these probes: ${plan.probes.join(" ")}. Then enter the score for each one.`);
+    const scores: solver.Score[] = [];
+    for (let probe of plan.probes) {
+        scores.push(await askScore(rl, `${probe}> `, undefined, undefined, plan.rules));
+    }
+
+    const final = statics.finalGuess(plan, scores);
+    if (final) {
+        console.log(`One more guess is needed: ${final}`);
+        scores.push(await askScore(rl, `${final}> `, undefined, undefined, plan.rules));
+    }
+    console.log(`The answer is: ${statics.decode(plan, scores)}`);
+}
+
+/**
+ * Solves several locks at once, with shared guesses. The scores come from the user, or from the secrets
+ * on the command line if there are any.
+ */
+async function solveLocks(rl?: readline.ReadLine) {
+    const secretList = getOption("secrets");
+    const count = parseInt(getOption("locks") || "0") || (secretList && secretList != "random" ? secretList.split(",").length : 2);
+    const secrets = secretList == "random"
+        ? _.range(count).map(() => solver.getRandomConfig(rules))
+        : secretList ? secretList.toUpperCase().split(",") : undefined;
+    if (secrets && secrets.length != count) {
+        console.log(`There are ${count} locks, but ${secrets.length} secrets.`);
+        return;
+    }
+    const invalid = secrets && secrets.find(secret => !solver.isValidCode(rules, secret));
+    if (invalid) {
+        console.log(`${invalid} isn't a valid code. Codes are ${rules.length} of ${rules.colors.join("")}.`);
+        return;
+    }
+
+    const objective = getOption("objective") == "worst" ? "worst" : "total";
+    await multilock.multiLoop(rules, count, {
+        guess: async (guess, remaining) => {
+            console.log(guess);
+            const scores: solver.Score[] = [];
+            for (let lock = 0; lock < count; lock++) {
+                if (remaining[lock].length == 1 && remaining[lock][0] != guess) {
+                    // the code is known, so its score is too.
+                    scores.push(solver.calculateScore(rules, guess, remaining[lock][0]));
+                }
+                else if (secrets) {
+                    scores.push(solver.calculateScore(rules, guess, secrets[lock]));
+                    console.log(`lock ${lock + 1}> ${solver.formatScore(rules, scores[lock])}`);
+                }
+                else {
+                    scores.push(await askScore(rl!, `lock ${lock + 1}> `, guess, remaining[lock]));
+                }
+            }
+            return scores;
+        },
+        solved: (lock, answer) => console.log(`Lock ${lock + 1} is ${answer.answer}, found in ${answer.attempts} tries.`)
+    }, { objective, opener: options.opener });
+}
+
+/** Helps the user play by hand. See assistant.ts. */
+function assist(rl: readline.ReadLine) {
+    const game = new session.SolverSession(rules, options);
+    console.log(`Enter each guess you make and its score, ie "${solver.getOpener(rules)} 1W2B". ` +
+        `"?" suggests a guess, "undo" takes one back, and nothing quits.`);
+
+    const ask = () => rl.question(`${game.remaining().length} left> `, input => {
+        const words = input.trim().toUpperCase().split(/\s+/).filter(w => w.length > 0);
+        if (words.length == 0) {
+            rl.close();
+            return;
+        }
+
+        if (words[0] == "?") {
+            console.log(`Try ${assistant.suggest({ rules, remaining: game.remaining(), history: game.history() })}.`);
+        }
+        else if (words[0] == "UNDO") {
+            const undone = game.undo();
+            console.log(undone ? `Took back ${undone.guess}.` : "There's nothing to take back.");
+        }
+        else {
+            // the guess is whichever word is a code, and the rest is the score, so they can come in either order.
+            const guess = words.find(w => solver.isValidCode(rules, w));
+            const score = solver.tryParseScore(words.filter(w => w != guess).join(""), rules);
+            if (!guess) {
+                console.log(`There's no valid code in "${input.trim()}". Codes are ${rules.length} of ${rules.colors.join("")}.`);
+            }
+            else if (score instanceof solver.ScoreError) {
+                console.log(score.message);
+            }
+            else {
+                const rating = assistant.rateGuess({ rules, remaining: game.remaining(), history: game.history() }, guess, score);
+                try {
+                    const answer = game.submit(score, guess);
+                    printRating(rating);
+                    if (answer) {
+                        console.log(`Solved in ${answer.attempts} guesses!`);
+                        rl.close();
+                        return;
+                    }
+                    if (game.remaining().length <= 8) {
+                        console.log("It could be: " + game.remaining().join(" "));
+                    }
+                }
+                catch (error) {
+                    if (!(error instanceof session.ContradictionError)) throw error;
+                    console.log(error.message);
+                }
+            }
+        }
+        ask();
+    });
+    ask();
+}
+
+/** Prints how a guess did in assist mode. */
+function printRating(rating: assistant.GuessRating) {
+    console.log(`${rating.guess} took it from ${rating.before} codes to ${rating.after}. ` +
+        `It would leave ${rating.expected.toFixed(1)} on average, and ${rating.worst} at worst.`);
+    if (rating.quality < 1) {
+        console.log(`The best guess was ${rating.best.guess}, which would leave ${rating.best.expected.toFixed(1)} on average, ` +
+            `and ${rating.best.worst} at worst. (${Math.round(rating.quality * 100)}% as good)`);
+    }
+    else {
+        console.log("That was as good a guess as any.");
+    }
+}
+
+/** Plays codemaker: picks a secret and scores the user's guesses until they find it. */
+function playCodemaker(rl: readline.ReadLine) {
+    const maker = new codemaker.Codemaker(rules, getOption("secret") || "random", options.strategy);
+    const hints = hasFlag("hints");
+    console.log(`I've picked a code of ${rules.length} from ${rules.colors.join("")}. Start guessing, or enter nothing to give up.`);
+
+    const ask = () => rl.question(`guess #${maker.guesses() + 1}> `, input => {
+        const guess = input.trim().toUpperCase();
+        if (!guess) {
+            console.log(`The code was ${maker.reveal()}.`);
+            rl.close();
+            return;
+        }
+
+        try {
+            const contradictions = hints ? maker.contradictions(guess) : [];
+            const score = maker.score(guess);
+            console.log(solver.formatScore(rules, score));
+            if (contradictions.length) {
+                console.log(`Hint: that couldn't have been the code. It contradicts ` +
+                    contradictions.map(t => `#${t.index + 1} ${t.guess} ${solver.formatScore(rules, t.score)}`).join(", ") + ".");
+            }
+        }
+        catch (error) {
+            if (!(error instanceof codemaker.InvalidGuessError)) throw error;
+            console.log(error.message);
+        }
+
+        if (maker.solved()) {
+            console.log(`You got it in ${maker.guesses()} guesses!`);
+            rl.close();
+        }
+        else {
+            ask();
+        }
+    });
+    ask();
+}
+
+if (process.argv.indexOf("book") != -1) {
+    saveBook(getOption("out") || "book.json");
+}
+else if (process.argv.indexOf("optimal") != -1) {
+    findOptimalTree();
+}
+else if (process.argv.indexOf("serve") != -1) {
+    const port = parseInt(getOption("port") || "8080");
+    const ttl = parseFloat(getOption("ttl") || "30") * 60 * 1000;
+    server.createServer({ ttl }).listen(port, () => console.log(`Listening on port ${port}.`));
+}
+else if (process.argv.indexOf("bench") != -1) {
+    const diff = process.argv.indexOf("diff");
+    if (diff != -1) {
+        diffBenchmarks(process.argv[diff + 1], process.argv[diff + 2]);
+    }
+    else {
+        runBenchmarks().catch(error => baseDelegates.error(error));
+    }
+}
+else if (process.argv.indexOf("replay") != -1) {
+    replayTranscripts(process.argv[process.argv.indexOf("replay") + 1]);
+}
+else if (process.argv.indexOf("multi") != -1) {
+    const rl = getOption("secrets") ? undefined : readline.createInterface({ input: process.stdin, output: process.stdout });
+    solveLocks(rl)
+        .catch(error => baseDelegates.error(error))
+        .then(() => rl && rl.close());
+}
+else if (process.argv.indexOf("auto") != -1) {
+    // Auto mode. Solve for all combinations, or find the worst case with an adversary.
+    const adversary = getOption("adversary");
+    if (adversary) {
+        forceWorstCase(adversary).catch(error => baseDelegates.error(error));
+    }
+    else {
+        nextAttempt(solver.getAllCombinations(rules));
+    }
+}
+else if (process.argv.indexOf("static") != -1) {
+    const plan = getOption("plan");
+    if (plan) {
+        const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+        decodeStaticPlan(rl, plan)
+            .catch(error => console.log(error.message))
+            .then(() => rl.close());
+    }
+    else {
+        findStaticPlan();
+    }
+}
+else if (process.argv.indexOf("assist") != -1) {
+    assist(readline.createInterface({
+        input: process.stdin,
+        output: process.stdout
+    }));
+}
+else if (process.argv.indexOf("play") != -1) {
+    playCodemaker(readline.createInterface({
+        input: process.stdin,
+        output: process.stdout
+    }));
 }
 else {
     // Input mode. Use readline to gather feedback from the user instead of figuring it out on our own.
@@ -175,5 +763,5 @@ else {
     });
 
     // only do one loop. If the user wants more, they can run it again. 
-    solver.loop(consoleDelegates(rl));
+    session.loop(rules, withTranscript(consoleDelegates(rl)), options).catch(() => process.exitCode = 1);
 }
@@ -1,168 +1,425 @@
 import * as _ from 'lodash';
+import { CodeSpace } from './codespace';
+import { FeedbackModel, ScoreError, feedbackModels } from './feedback';
+import * as session from './session';
 
-/** A score to be calculated between two lock configurations */
-export type Score = { white: number, black: number };
+export { FeedbackModel, ScoreError, ScoreErrorKind, feedbackModels, scoreKey } from './feedback';
 
-/** a function that will asynchronously return a score based on a given lock guess. */
-export type Guesser = (guess: string) => Promise<Score>;
+/** 
+ * A score to be calculated between two lock configurations. Some feedback models mark each slot as
+ * well as counting pegs, and those marks are part of the score too. See feedback.ts.
+ */
+export type Score = { white: number, black: number, marks?: string };
+
+/** 
+ * a function that will asynchronously return a score based on a given lock guess. The codes that could 
+ * still be the answer are provided too, for anyone that wants to check the score makes sense.
+ */
+export type Guesser = (guess: string, remaining?: string[]) => Promise<Score>;
 
 /** An answer, representing the final result and the number of attempts to reach that result. */
 export type Answer = { answer: string, attempts: number };
 
 /** 
- * An object containing callbacks to be called, given various events that can happen during calculation
- * of a guess.
+ * The rules of a particular game: which colors are valid, how long a combination is, and what's
+ * allowed to show up more than once. Every function that generates or scores combinations takes
+ * one of these, so that several variants of the game can be solved side by side in one process.
  */
-export type Delegates = {
-    guess: Guesser,
-    error: (error: any) => void,
-    solved: (answer: Answer) => void;
+export type RuleSet = {
+    /** All of the colors valid in the system. */
+    colors: string[],
+
+    /** The length of the combination. */
+    length: number,
+
+    /** Whether a color may appear in more than one slot simultaneously. */
+    duplicates: boolean,
+
+    /** Whether a slot may be left empty. Blank slots can repeat, even when colors can't. */
+    blanks: boolean,
+
+    /** The best known starting move for these rules, if we have one. */
+    opener?: string,
+
+    /** The name of the feedback model that scores guesses. Defaults to mastermind. See feedback.ts. */
+    feedback?: string
 }
 
-/** All of the colors valid in the system. */
-const colors = ['B', 'G', 'O', 'R', 'Y', 'P'];
+/** The symbol used to represent an empty slot, when the rules allow blanks. */
+export const blank = '-';
 
 /** 
- * The maximum length of the combination. This value becomes invalid if it surpasses the length of colors,
- * as it violates the precondition "No two slots can have the same color simultaneously."
+ * The original lock challenge: 6 colors, 4 slots, and "No two slots can have the same color simultaneously."
+ * Optimal starting moves which minimize the average length of solution:
+ * ["OYGP", "OPGY", "RYOG", "YRGO", "PYGO", "PYGR"];
  */
-const combinationLength = 4;
-if (combinationLength > colors.length) {
-    throw new Error("An invalid combination length was provided, and it requires that the rules of the system be broken.");
-}
+export const lockChallenge: RuleSet = { colors: ['B', 'G', 'O', 'R', 'Y', 'P'], length: 4, duplicates: false, blanks: false, opener: "PYGO" };
 
-/** A precalculated list of all possible score permutations. An optimization for the hot-loop calculateScore() function. */
-const allScores = getAllPossibleScores();
+/** Classic Mastermind: 6 colors, 4 pegs, repeats allowed. Knuth's opener is of the form "1122". */
+export const classicMastermind: RuleSet = { colors: ['B', 'G', 'O', 'R', 'Y', 'P'], length: 4, duplicates: true, blanks: false, opener: "BBGG" };
 
-/** Perform the main loop of the solver. */
-export async function loop(delegates: Delegates, guess?: string, possibilities = getAllCombinations(), usedCodes = new Set<string>()) {
-    if (!guess) {
-        // Optimal starting moves which minimize the average length of solution:
-        // ["OYGP", "OPGY", "RYOG", "YRGO", "PYGO", "PYGR"];
-        guess = "PYGO";
-    }
+/** Super Mastermind: 8 colors, 5 pegs, repeats allowed. */
+export const superMastermind: RuleSet = { colors: ['B', 'G', 'O', 'R', 'Y', 'P', 'C', 'M'], length: 5, duplicates: true, blanks: false, opener: "BBGGO" };
 
-    // Give the user our guess. 
-    usedCodes.add(guess);
-    const score = await delegates.guess(guess);
+/** Bulls & Cows: 4 different digits, scored in bulls (right place) and cows (wrong place). */
+export const bullsAndCows: RuleSet = { colors: _.range(10).map(String), length: 4, duplicates: false, blanks: false, opener: "0123", feedback: 'bulls' };
 
-    // We got it!
-    if (score.black == combinationLength) {
-        delegates.solved({ answer: guess, attempts: usedCodes.size })
-        return;
+/** Mastermind colors and pegs, but every slot is marked exact, present or absent, like Wordle. */
+export const positionalMastermind: RuleSet = { colors: ['B', 'G', 'O', 'R', 'Y', 'P'], length: 4, duplicates: true, blanks: false, opener: "BGOR", feedback: 'positional' };
+
+/** The built-in rule sets, by the name used to select them from the command line. */
+export const ruleSets: { [name: string]: RuleSet } = {
+    lock: lockChallenge,
+    classic: classicMastermind,
+    super: superMastermind,
+    bulls: bullsAndCows,
+    positional: positionalMastermind
+};
+
+/** 
+ * Throws if the rule set can't be satisfied. The combination length can't surpass the number of colors
+ * unless something is allowed to repeat, as it violates the precondition "No two slots can have the same 
+ * color simultaneously."
+ */
+export function validateRules(rules: RuleSet) {
+    if (!Number.isInteger(rules.length) || rules.length < 1) {
+        throw new Error("An invalid combination length was provided. Combinations need a whole number of slots, at least one.");
+    }
+    if (!rules.duplicates && !rules.blanks && rules.length > rules.colors.length) {
+        throw new Error("An invalid combination length was provided, and it requires that the rules of the system be broken.");
+    }
+    if (rules.colors.indexOf(blank) != -1 || _.uniq(rules.colors).length != rules.colors.length) {
+        throw new Error("Colors must be unique, and can't use the blank symbol: " + blank);
+    }
+    if (rules.feedback && !feedbackModels[rules.feedback]) {
+        throw new Error(`Unknown feedback "${rules.feedback}". Valid feedback models are: ${Object.keys(feedbackModels).join(", ")}`);
     }
+}
 
-    // Just in case. This should never happen if the algorithm is working properly.
-    if (possibilities.length <= 1) {
-        delegates.error("Something's gone horribly wrong. Sorry, I don't have an answer.");
-        return;
+/** Gets the feedback model that scores guesses under the rules. */
+export function getFeedback(rules: RuleSet): FeedbackModel {
+    const model = feedbackModels[rules.feedback || 'mastermind'];
+    if (!model) {
+        throw new Error(`Unknown feedback "${rules.feedback}". Valid feedback models are: ${Object.keys(feedbackModels).join(", ")}`);
     }
+    return model;
+}
+
+/** The score for a guess that's exactly right, under the rules. */
+export function winningScore(rules: RuleSet) {
+    const code = getCodeSpace(rules).codes[0];
+    return calculateScore(rules, code, code);
+}
+
+/** Determines whether a code could be the answer under the rules: the right length, valid colors, and no illegal repeats. */
+export function isValidCode(rules: RuleSet, code: string) {
+    const palette = getPalette(rules);
+    const slots = code.split('');
+    return slots.length == rules.length
+        && slots.every(c => palette.indexOf(c) != -1)
+        && (rules.duplicates || slots.every((c, i) => c == blank || slots.indexOf(c) == i));
+}
+
+/** The symbols that may be placed in a slot: all of the colors, plus the blank if it's allowed. */
+function getPalette(rules: RuleSet) {
+    return rules.blanks ? rules.colors.concat(blank) : rules.colors;
+}
+
+/** Gets the starting move for the rules. Falls back to pairs of colors, ala Knuth, if there's no known opener. */
+export function getOpener(rules: RuleSet) {
+    if (rules.opener)
+        return rules.opener;
+
+    // Without repeats, just use the first few colors, padding with blanks if there aren't enough. 
+    if (!rules.duplicates)
+        return _.range(rules.length).map(i => i < rules.colors.length ? rules.colors[i] : blank).join('');
+
+    return _.range(rules.length).map(i => rules.colors[Math.floor(i / 2) % rules.colors.length]).join('');
+}
+
+/** A guess that has been made, and the score that it was given. */
+export type Turn = { guess: string, score: Score };
+
+/** 
+ * The main loop, and everything it takes. These live with the session the loop wraps now (see 
+ * session.ts), but they started out here, and they're still here for anyone who's used to them.
+ */
+export type Delegates = session.Delegates;
+export type SolverOptions = session.SolverOptions;
+
+/** Perform the main loop of the solver. See session.loop(). */
+export function loop(rules: RuleSet, delegates: Delegates, options: session.LoopOptions = {}) {
+    return session.loop(rules, delegates, options);
+}
+
+/** Everything a strategy gets to know about the game when it's asked for the next guess. */
+export type StrategyContext = { rules: RuleSet, remaining: string[], history: Turn[] };
+
+/** 
+ * A method of choosing the next guess. The name identifies the strategy and its options, so that the
+ * same strategy can be selected again later. A strategy may also have a starting move it prefers, and
+ * may be able to rank its best few guesses, for anyone who wants to know why it chose the one it did.
+ * Strategies that rate candidates one at a time can also search a few at a time, so that a search can
+ * be interrupted, or cut short and still give the best guess found so far.
+ */
+export type Strategy = {
+    name: string,
+    opener?: string,
+    nextGuess: (context: StrategyContext) => string,
+    rank?: (context: StrategyContext, count: number) => RatedGuess[],
+    search?: (context: StrategyContext) => GuessSearch
+}
+
+/** A search for the next guess, that can be done a few candidates at a time. See Strategy.search. */
+export type GuessSearch = {
+    /** The number of candidates rated so far, and the number there are to rate in all. */
+    readonly rated: number,
+    readonly total: number,
+
+    /** Rates up to the given number of candidates more. Returns true once every candidate is rated. */
+    step: (count: number) => boolean,
+
+    /** The best guess found so far. */
+    best: () => string
+}
+
+/** A candidate guess, with the strategy's rating for it (lower is better) and the size of its largest group. */
+export type RatedGuess = { guess: string, rating: number, worst: number, possible: boolean };
+
+/** Why a guess was chosen. See explainGuess(). */
+export type Explanation = {
+    guess: string,
+
+    /** The number of codes that could still be the answer. */
+    remaining: number,
+
+    /** How the remaining codes split up by the score the guess gets, in the order of getAllPossibleScores(). */
+    partition: { score: Score, size: number }[],
+
+    /** The next best guesses, in order, by the strategy's own rating. */
+    runnersUp: RatedGuess[],
+
+    /** The codes that could still be the answer, when there are only a few of them. */
+    candidates?: string[]
+}
+
+/** Where a strategy draws its guesses from: only the codes that could still be the answer, or every combination. */
+export type CandidatePool = 'remaining' | 'all';
+
+/** 
+ * Rates a guess by the sizes of the groups it would split the remaining codes into, one group per 
+ * possible score. Lower ratings are better.
+ */
+export type PartitionRating = (sizes: number[], total: number) => number;
 
-    // Pare down the remaining possibilities based on what we've learned from the score. 
-    const remaining = parePossibilities(possibilities, guess, score);
+/** 
+ * Creates a strategy that looks through a pool of candidates and picks the one with the best partition
+ * rating. Ties go to a candidate that could still be the answer, and then to whichever came first, so 
+ * the same game state always produces the same guess.
+ */
+export function heuristicStrategy(name: string, rate: PartitionRating, pool: CandidatePool = 'remaining'): Strategy {
+    return {
+        name: pool == 'remaining' ? name : `${name}:${pool}`,
+        nextGuess: context => findNextGuess(context, rate, pool),
+        rank: (context, count) => rankGuesses(context, rate, pool, count),
+        search: context => searchGuesses(context, rate, pool)
+    };
+}
 
-    // Come up with another guess and recurse. 
-    const nextGuess = findNextGuess(remaining, usedCodes);
-    loop(delegates, nextGuess, remaining, usedCodes);
+/** Rates a guess by its largest group; ie the number of codes left over if the worst happens. */
+export function worstCase(sizes: number[]) {
+    return Math.max(...sizes);
 }
 
+/** The original strategy: minimize the number of codes left over in the worst case. */
+export const minimax = heuristicStrategy('minimax', worstCase);
+
 /** Find the next value to present */
-function findNextGuess(remaining: string[], usedCodes: Set<string>) {
+function findNextGuess(context: StrategyContext, rate: PartitionRating, pool: CandidatePool) {
+    const search = searchGuesses(context, rate, pool);
+    search.step(search.total);
+    return search.best();
+}
+
+/** Starts a search for the next guess, which findNextGuess() runs to the end in one go. */
+function searchGuesses(context: StrategyContext, rate: PartitionRating, pool: CandidatePool): GuessSearch {
+    const { remaining } = context;
 
     // bail out if there's only one option left. That means we know the answer.
     if (remaining.length == 1)
-        return remaining[0];
+        return { rated: 0, total: 0, step: () => true, best: () => remaining[0] };
 
     // We're not actually making a guess. What we're doing is trying to find an answer that has the 
     // potential to eliminate the maximum number of remaining values, so that the size of the pool
     // shrinks by an order of magnitude. We're basically trying to find more information out, rather
     // than make an honest guess. 
     let min = Number.MAX_VALUE;
-    let minCombination: string = "";
-
-    // Turned this iterative to speed it up.
-    // Functional looked nicer, but it's a hot O(n^3) loop. Everything counts. 
-    for (let possibility of remaining) {
-        if (usedCodes.has(possibility))
-            continue;
-
-        let max = 0;
-        for (let score of allScores) {
-            let count = 0;
-            for (let guess of remaining) {
-                if (scoreEquals(calculateScore(guess, possibility), score))
-                    count++;
-            }
-            max = Math.max(count, max);
+    let minCombination = -1;
+    let minIsPossible = false;
+
+    const rater = rateCandidates(context, rate, pool, (candidate, rating, isPossible) => {
+        if (rating < min || (rating == min && isPossible && !minIsPossible)) {
+            min = rating;
+            minCombination = candidate;
+            minIsPossible = isPossible;
         }
-        if (max < min) {
-            min = max;
-            minCombination = possibility;
+    });
+
+    return {
+        get rated() { return rater.rated; },
+        total: rater.total,
+        step: count => rater.step(count),
+
+        // nothing rated yet means nothing to go on, so fall back to the first code that could be the answer.
+        best: () => minCombination == -1 ? remaining[0] : rater.space.codes[minCombination]
+    };
+}
+
+/** 
+ * Ranks the candidates the same way findNextGuess() picks between them, and returns the best few. The 
+ * first one is the guess the strategy would make, unless there's only one code left.
+ */
+function rankGuesses(context: StrategyContext, rate: PartitionRating, pool: CandidatePool, count: number) {
+    const codes = getCodeSpace(context.rules).codes;
+    const rated: RatedGuess[] = [];
+    const rater = rateCandidates(context, rate, pool, (candidate, rating, possible, sizes) => {
+        rated.push({ guess: codes[candidate], rating, worst: Math.max(...sizes), possible });
+    });
+    rater.step(rater.total);
+
+    // sortBy is stable, so ties stay in pool order.
+    return _.sortBy(rated, [(g: RatedGuess) => g.rating, (g: RatedGuess) => g.possible ? 0 : 1]).slice(0, count);
+}
+
+/** 
+ * Prepares to rate every candidate in the pool that hasn't already been guessed, in order. Each call to
+ * step() rates the next few, and passes each one to the visitor, along with the sizes of its groups in the
+ * order of getAllPossibleScores(). The sizes are reused from one candidate to the next. The code space is
+ * returned too, to turn the candidate ids back into codes.
+ */
+function rateCandidates(context: StrategyContext, rate: PartitionRating, pool: CandidatePool,
+    visit: (candidate: number, rating: number, possible: boolean, sizes: number[]) => void) {
+    const { rules, remaining, history } = context;
+
+    // Everything in here works on code ids rather than strings. See codespace.ts.
+    const space = getCodeSpace(rules);
+    const possibleIds = space.toIds(remaining);
+    const possible = new Uint8Array(space.size);
+    possibleIds.forEach(id => possible[id] = 1);
+    const used = new Uint8Array(space.size);
+    space.toIds(history.map(h => h.guess)).forEach(id => used[id] = 1);
+    const candidates = (pool == 'remaining' ? possibleIds : _.range(space.size)).filter(id => !used[id]);
+
+    // Score ids are in the order of getAllPossibleScores(), which is the order the ratings expect.
+    const buckets = new Int32Array(space.scores.length);
+    const sizes = space.scores.map(() => 0);
+
+    const rater = {
+        space,
+        rated: 0,
+        total: candidates.length,
+        step: (count: number) => {
+            // Turned this iterative to speed it up.
+            // Functional looked nicer, but it's a hot O(n^2) loop. Everything counts. 
+            const end = Math.min(rater.rated + count, candidates.length);
+            for (let i = rater.rated; i < end; i++) {
+                const candidate = candidates[i];
+                space.partition(candidate, possibleIds, buckets);
+                for (let j = 0; j < sizes.length; j++) {
+                    sizes[j] = buckets[j];
+                }
+                visit(candidate, rate(sizes, remaining.length), possible[candidate] == 1, sizes);
+            }
+            rater.rated = end;
+            return end == candidates.length;
         }
+    };
+    return rater;
+}
+
+/** 
+ * Explains a guess: how it splits up the remaining codes, what the strategy's next best guesses were, 
+ * and what the answer could be, if there are only a few codes left. Strategies that can't rank their 
+ * guesses are explained with the runners-up from minimax.
+ */
+export function explainGuess(context: StrategyContext, guess: string, strategy: Strategy, runnersUp = 3, few = 8): Explanation {
+    const sizes = partition(context.rules, guess, context.remaining);
+    const ranked = strategy.rank
+        ? strategy.rank(context, runnersUp + 1)
+        : rankGuesses(context, worstCase, 'remaining', runnersUp + 1);
+
+    return {
+        guess,
+        remaining: context.remaining.length,
+        partition: getAllPossibleScores(context.rules).map((score, i) => ({ score, size: sizes[i] })),
+        runnersUp: ranked.filter(g => g.guess != guess).slice(0, runnersUp),
+        candidates: context.remaining.length <= few ? context.remaining.slice() : undefined
+    };
+}
+
+/** 
+ * Splits the remaining codes into groups by the score they'd give the guess, and returns the size of
+ * each group. The groups are in the same order as getAllPossibleScores(), and may be empty.
+ */
+export function partition(rules: RuleSet, guess: string, remaining: string[]) {
+    const space = getCodeSpace(rules);
+    const id = space.indexOf(guess);
+    if (id == -1) {
+        // not a valid code, so it can't use the code space. Do it the slow way.
+        return getAllPossibleScores(rules)
+            .map(score => remaining.filter(p => scoreEquals(calculateScore(rules, guess, p), score)).length);
     }
 
-    return minCombination;
+    return Array.from(space.partition(id, space.toIds(remaining), new Int32Array(space.scores.length)));
 }
 
 /** Determine if the scores are equivalent */
 export function scoreEquals(left: Score, right: Score) {
-    return left.white == right.white && left.black == right.black;
+    return left.white == right.white && left.black == right.black && left.marks == right.marks;
 }
 
 /** 
  * Removes all possibilities from the remaining list that don't match the score we were given.
- * Since we know that score(x,y) == score(y,x), we can assume that any remaining possibility
- * that doesn't give us the score that was returned with our guess can never be a match. 
+ * Any remaining possibility that wouldn't give our guess the score that was returned with it
+ * can never be a match. 
  */
-function parePossibilities(possibilities: string[], guess: string, score: Score) {
-    return possibilities.filter(p => isValidScore(p, guess, score));
+export function parePossibilities(rules: RuleSet, possibilities: string[], guess: string, score: Score) {
+    const space = getCodeSpace(rules);
+    const id = space.indexOf(guess);
+    if (id == -1)
+        return possibilities.filter(p => isValidScore(rules, p, guess, score));
+
+    const scoreId = space.scoreIdOf(score);
+    return possibilities.filter(p => {
+        const p_id = space.indexOf(p);
+        return p_id == -1 ? isValidScore(rules, p, guess, score) : space.scoreId(id, p_id) == scoreId;
+    });
 }
 
 /** Determines, for the given two combinations, whether the score matches. */
-function isValidScore(possibility: string, guess: string, score: Score) {
-    const c = calculateScore(possibility, guess);
+function isValidScore(rules: RuleSet, possibility: string, guess: string, score: Score) {
+    const c = calculateScore(rules, guess, possibility);
     return scoreEquals(c, score);
 }
 
-/** Calculates a score given two combinations. */
-const memoizedScores = new Map<string, Score>();
-const combinationIndices = _.range(combinationLength);
-export function calculateScore(guess: string, possibility: string) {
-    // return cached version if it exists. Hot-loop optimization.
-    const memo = memoizedScores.get(guess + possibility);
-    if (memo)
-        return memo;
-
-    // Get all indices in the strings that don't exactly match. 
-    const nonMatchingIndices = combinationIndices.filter(i => guess[i] != possibility[i]);
-
-    // Filter out the exact matches leaving us with arrays of strings that may match, but the positional data
-    // is unimportant at this point.
-    const g = nonMatchingIndices.map(i => guess[i]);
-    const p = nonMatchingIndices.map(i => possibility[i]);
-
-    // white is the number of non-matching indices where there exists at least one matching entry in p
-    // for every entry in g. If the "No two slots can have the same color simultaneously" rule
-    // were not in place, this calculation becomes more complex, because of the following situation:
-    // "BBOO" vs "OOBG". This current version would erroneously report the score as 4W, because
-    // it would match both B's in the first with the single B in the second. Instead the correct 
-    // answer is 3W, as you're supposed to cross out the eliminated items as you run across them.
-    let white = g.filter(x => p.indexOf(x) != -1).length;
-
-    // black is the number of items that matched; ie len(guess) - len(nonmatching)
-    const score = { white, black: guess.length - nonMatchingIndices.length };
-
-    // Memoize the calculations to speed things up, and set the reverse case too, because 
-    // calculateScores(x, y) == calculateScores(y, x).
-    memoizedScores.set(guess + possibility, score);
-    memoizedScores.set(possibility + guess, score);
-    return score;
+/** 
+ * Calculates a score given two combinations. Valid codes are looked up in the code space for the rules,
+ * which is a hot-loop optimization (see codespace.ts). Anything else is scored by the feedback model.
+ */
+export function calculateScore(rules: RuleSet, guess: string, possibility: string): Score {
+    const space = getCodeSpace(rules);
+    const g = space.indexOf(guess);
+    const p = space.indexOf(possibility);
+    if (g != -1 && p != -1)
+        return space.score(g, p);
+
+    return getFeedback(rules).score(rules, guess, possibility);
 }
 
 /** 
  * Parses a score in text format into a structure we can use. Doesn't do error-handling. 
- * Any invalid string is simply { w: 0, b: 0 } for simplicity. A production app should naturally
- * be more protective. 
+ * Any invalid string is simply { w: 0, b: 0 } for simplicity. Use tryParseScore() for input that 
+ * needs to be validated.
  */
 export function parseScore(score: string): Score {
     score = score.toLowerCase();
@@ -174,21 +431,77 @@ export function parseScore(score: string): Score {
     }
 }
 
-/** Prints a score in AR challenge format, for output purposes. */
+/** 
+ * Parses a score in text format, the same as parseScore(), but validates it rather than guessing.
+ * The format is up to the feedback model for the rules (see feedback.ts), which returns a ScoreError 
+ * for anything that isn't a well-formed score, such as "5b" or "3b1w" with 4 slots, or "2w2w". If the
+ * guess and the remaining candidates are given, it also rejects a score that none of the candidates 
+ * would give that guess.
+ */
+export function tryParseScore(input: string, rules: RuleSet, guess?: string, remaining?: string[]): Score | ScoreError {
+    const score = getFeedback(rules).parse(input, rules);
+    if (score instanceof ScoreError)
+        return score;
+
+    if (guess && remaining && !remaining.some(code => isValidScore(rules, code, guess, score))) {
+        return new ScoreError('impossible', input, `None of the ${remaining.length} codes left would score ${formatScore(rules, score)} against ${guess}. Please check it again.`);
+    }
+    return score;
+}
+
+/** 
+ * Prints a score in AR challenge format, for output purposes. Scores that mark each slot are printed as
+ * their marks. 
+ */
 export function printScore(score: Score) {
+    if (score.marks)
+        return score.marks;
+
     let str = "";
     if (score.white) str += score.white + "W";
     if (score.black) str += score.black + "B";
     return str;
 }
 
+/** Prints a score the way the feedback model for the rules writes it. Unlike printScore(), it's never empty. */
+export function formatScore(rules: RuleSet, score: Score) {
+    return getFeedback(rules).print(score);
+}
+
 /** Computes a set of all possible combinations */
-export function getAllCombinations() {
-    return permutateString(_.range(0, colors.length), [], combinationLength);
+export function getAllCombinations(rules: RuleSet) {
+    validateRules(rules);
+    const palette = getPalette(rules);
+    return permutateString(rules, palette, _.range(0, palette.length), [], rules.length);
+}
+
+/** 
+ * The code space for a rule set, which represents codes and scores as integers. Built once per rule set,
+ * the first time it's needed, since it precomputes every score. See codespace.ts. Rule sets are told
+ * apart by rulesKey(), so two copies of the same rules, like the ones the server parses out of each
+ * request, share one code space rather than building their own.
+ */
+const codeSpaces = new Map<string, CodeSpace>();
+export function getCodeSpace(rules: RuleSet) {
+    const key = rulesKey(rules);
+    let space = codeSpaces.get(key);
+    if (!space) {
+        space = new CodeSpace(rules, getAllCombinations(rules), getPalette(rules), getFeedback(rules));
+        codeSpaces.set(key, space);
+    }
+    return space;
+}
+
+/** 
+ * A canonical form of the parts of the rules that decide the codes and how they're scored. The opener
+ * isn't one of them, so rules that only differ in their opener have the same key.
+ */
+export function rulesKey(rules: RuleSet) {
+    return JSON.stringify([rules.colors, rules.length, !!rules.duplicates, !!rules.blanks, rules.feedback || 'mastermind']);
 }
 
 /** Recursive function that permutates a set of numbers for a set depth. */
-function permutateString(set: number[], current: number[], depth: number): string[] {
+function permutateString(rules: RuleSet, palette: string[], set: number[], current: number[], depth: number): string[] {
     // Use recursion to calculate the string permutations. Start by calculating "1, 2, 3, 4, 5, 6",
     // then recurse down a level, calculating "12, 13, 14, 15, 16" and "21, 23, 24, 25, 26", etc.
     // Continue until the desired depth is reached.
@@ -196,39 +509,26 @@ function permutateString(set: number[], current: number[], depth: number): strin
     // base case. No more permutations to explore, convert the "current" array into letters,
     // and join them into a string representing the lock combination. 
     if (depth == 0) {
-        return [current.map(x => colors[x]).join('')];
+        return [current.map(x => palette[x]).join('')];
     }
 
     // More iterations to perform. Recurse down another level. 
     return set
-        .filter(i => current.indexOf(i) == -1)   // filtering added when the no-duplicates rule was discovered.
-        .map(i => permutateString(set, current.concat(i), depth - 1))
-        .reduce((p, c) => p.concat(c), []);
-}
-
-/** Permutates a list of all possible scores that can exist. */
-function getAllPossibleScores() {
-    // Scores are of the form xWyB, where the sum of x+y can be at most "combinationlength", and at least 0. 
-    // Therefore, iterate through the number 0..combinationlength, and for each sum, calculate
-    // the permutations of scores that equal that sum. 
-    // For example, getScoresForSum(3) returns: {0,3}, {1,2}, {2,1}, {3,0}.
-    // Concatenate all permutations and we have all valid scores. 
-    return _.range(0, combinationLength + 1)
-        .map(sum => getScoresForSum(sum))
+        .filter(i => rules.duplicates || palette[i] == blank || current.indexOf(i) == -1)   // filtering added when the no-duplicates rule was discovered.
+        .map(i => permutateString(rules, palette, set, current.concat(i), depth - 1))
         .reduce((p, c) => p.concat(c), []);
 }
 
-/** Permutates a list of all possible scores that have the given sum. */
-function getScoresForSum(sum: number) {
-    return _.range(0, sum + 1)
-        .map(white => { return { white, black: sum - white } });
+/** Lists every score there is under the rules, in the order the feedback model gives them. */
+export function getAllPossibleScores(rules: RuleSet) {
+    return getFeedback(rules).scores(rules);
 }
 
 /** 
  * Gets a random configuration from the set of all possible combinations. 
  * There's way faster ways to do this, but it's only for testing so I opted for easiest.
  */
-export function getRandomConfig(): string {
-    const set = getAllCombinations();
+export function getRandomConfig(rules: RuleSet): string {
+    const set = getAllCombinations(rules);
     return set[_.random(0, set.length - 1, false)];
 }
@@ -0,0 +1,256 @@
+import * as _ from 'lodash';
+import * as solver from './lib';
+import * as session from './session';
+import * as strategies from './strategies';
+
+/**
+ * Several locks at once. When a batch of locks is tested together, every guess is tried on all of them,
+ * and comes back with a score for each. Each lock still has its own secret, so each one keeps its own
+ * set of codes that could be the answer (a SolverSession per lock, see session.ts), but they all share
+ * the same guesses.
+ *
+ * That changes what makes a good guess. A guess that splits one lock's codes nicely may do nothing for
+ * the others, so candidates are rated across every lock that isn't solved yet:
+ *
+ *  - total: the number of codes left over, on average, summed across the locks. The default.
+ *  - worst: the most codes left over in the worst case, in whichever lock comes off worst. Ties go to
+ *           the guess with the better total.
+ *
+ * A lock isn't solved until its code has actually been guessed. So once the codes of a lock are narrowed
+ * down to one, that code is guessed next, since it has to be guessed sooner or later, and its scores
+ * still tell us something about the other locks.
+ */
+
+/** Scores a guess against every lock, in order. The scores for locks that are already solved are ignored. */
+export type MultiGuesser = (guess: string, remaining: string[][]) => Promise<solver.Score[]>;
+
+/** What a shared guess is chosen to reduce. See the top of this file. */
+export type MultiObjective = 'total' | 'worst';
+
+export type MultiOptions = {
+    /** Defaults to total. */
+    objective?: MultiObjective,
+
+    /** Where the candidate guesses come from. Defaults to the codes that could still be one of the answers. */
+    pool?: solver.CandidatePool,
+
+    /** The first guess. Defaults to the opener for the rules. */
+    opener?: string
+}
+
+/** Like session.Delegates, but with a score for every lock, and an answer for each lock as it's solved. */
+export type MultiDelegates = {
+    guess: MultiGuesser,
+    solved: (lock: number, answer: solver.Answer) => void,
+
+    /** Called with the error multiLoop() is about to reject with, like session.Delegates.error. */
+    error?: (error: session.SolverError) => void
+}
+
+/** A lock that was solved by a guess, by its index. */
+export type SolvedLock = { lock: number, answer: solver.Answer };
+
+/** A score for one of the locks that contradicts the earlier scores for that lock. */
+export class LockContradictionError extends session.ContradictionError {
+    /** The index of the lock, counting from 0. */
+    readonly lock: number;
+
+    constructor(lock: number, error: session.ContradictionError, rules: solver.RuleSet) {
+        super(error.turn, error.conflicts, rules);
+        this.message = `Lock ${lock + 1}: ${this.message}`;
+        this.lock = lock;
+    }
+}
+
+/** A set of locks being solved together. See the top of this file. */
+export class MultiSession {
+    readonly rules: solver.RuleSet;
+    readonly objective: MultiObjective;
+    readonly pool: solver.CandidatePool;
+    readonly opener: string;
+
+    private locks: session.SolverSession[];
+
+    /** Every guess made so far. Locks stop keeping track once they're solved. */
+    private made: string[] = [];
+
+    /** The guess computed for the current turn, so asking twice doesn't repeat the work. */
+    private pending?: string;
+
+    constructor(rules: solver.RuleSet, count: number, options: MultiOptions = {}) {
+        if (!(count >= 1)) {
+            throw new Error(`There must be at least one lock, not ${count}.`);
+        }
+        this.rules = rules;
+        this.objective = options.objective || 'total';
+        this.pool = options.pool || 'remaining';
+        this.opener = options.opener || solver.getOpener(rules);
+        this.locks = _.range(count).map(() => new session.SolverSession(rules, { opener: this.opener }));
+    }
+
+    /** The number of locks. */
+    get count() {
+        return this.locks.length;
+    }
+
+    /** The guess to try on every lock next. */
+    nextGuess() {
+        if (this.solved()) {
+            throw new Error("Every lock is already solved.");
+        }
+        if (!this.pending) {
+            this.pending = this.made.length == 0 ? this.opener : this.findNextGuess();
+        }
+        return this.pending;
+    }
+
+    /**
+     * Records the scores for a guess, one per lock, and returns the locks it solved. Scores for locks
+     * that were already solved are ignored. Throws a LockContradictionError, without recording anything,
+     * if any of the scores contradicts the earlier ones for its lock.
+     */
+    submit(scores: solver.Score[], guess = this.nextGuess()): SolvedLock[] {
+        if (this.solved()) {
+            throw new Error("Every lock is already solved.");
+        }
+        if (scores.length != this.locks.length) {
+            throw new Error(`Expected a score for each of the ${this.locks.length} locks, but got ${scores.length}.`);
+        }
+
+        // check every lock before touching any of them, so a bad score leaves the game as it was.
+        const unsolved = this.unsolved();
+        for (let lock of unsolved) {
+            if (solver.parePossibilities(this.rules, this.locks[lock].remaining(), guess, scores[lock]).length == 0) {
+                try {
+                    this.locks[lock].submit(scores[lock], guess);
+                }
+                catch (error) {
+                    if (!(error instanceof session.ContradictionError)) throw error;
+                    throw new LockContradictionError(lock, error, this.rules);
+                }
+            }
+        }
+
+        const solved: SolvedLock[] = [];
+        for (let lock of unsolved) {
+            const answer = this.locks[lock].submit(scores[lock], guess);
+            if (answer) solved.push({ lock, answer });
+        }
+        this.made.push(guess);
+        this.pending = undefined;
+        return solved;
+    }
+
+    /** The codes that could still be the answer for each lock. A solved lock has only its answer. */
+    remaining() {
+        return this.locks.map(lock => lock.answer() ? [lock.answer()!.answer] : lock.remaining());
+    }
+
+    /** The indexes of the locks that aren't solved yet. */
+    unsolved() {
+        return _.range(this.locks.length).filter(i => !this.locks[i].answer());
+    }
+
+    /** The answer for each lock, or undefined for the ones that aren't solved yet. */
+    answers() {
+        return this.locks.map(lock => lock.answer());
+    }
+
+    /** Whether every lock is solved. */
+    solved() {
+        return this.unsolved().length == 0;
+    }
+
+    /** Every guess made so far. */
+    guesses() {
+        return this.made.slice();
+    }
+
+    /**
+     * Rates every candidate across the unsolved locks, and picks the best. Codes that are known to be the
+     * answer for a lock come first, ties go to the codes that could be the answer for the most locks, and
+     * then to the earliest code.
+     */
+    private findNextGuess() {
+        const space = solver.getCodeSpace(this.rules);
+        const locks = this.unsolved().map(lock => space.toIds(this.locks[lock].remaining()));
+        const known = _.uniq(locks.filter(ids => ids.length == 1).map(ids => ids[0]));
+        const possible = _.uniq(_.flatten(locks));
+        const candidates = known.length ? known
+            : this.pool == 'all' ? _.range(space.size)
+            : _.sortBy(possible);
+
+        const buckets = new Int32Array(space.scores.length);
+        let best = { guess: -1, rating: [Infinity, Infinity, 0] };
+        for (let guess of candidates) {
+            let total = 0, worst = 0, matches = 0;
+            for (let ids of locks) {
+                const sizes = Array.from(space.partition(guess, ids, buckets));
+                total += strategies.ratings.expected(sizes, ids.length);
+                worst = Math.max(worst, solver.worstCase(sizes));
+                if (ids.indexOf(guess) != -1) matches++;
+            }
+
+            const rating = this.objective == 'worst' ? [worst, total, -matches] : [total, worst, -matches];
+            if (compareRatings(rating, best.rating) < 0) {
+                best = { guess, rating };
+            }
+        }
+        return space.codes[best.guess];
+    }
+}
+
+/** Compares two ratings, one number at a time. Lower is better. */
+function compareRatings(a: number[], b: number[]) {
+    for (let i = 0; i < a.length; i++) {
+        if (a[i] != b[i]) return a[i] - b[i];
+    }
+    return 0;
+}
+
+/**
+ * The main loop of the solver, for several locks at once. Gets the scores for every guess from the
+ * delegates, and tells them about each lock as soon as it's solved. Resolves with the answer for every
+ * lock, in order, once they're all solved. Like session.loop(), it rejects with a SolverError: a
+ * LockContradictionError if a score contradicts the earlier ones for its lock, or one of kind delegate
+ * if a delegate fails.
+ */
+export async function multiLoop(rules: solver.RuleSet, count: number, delegates: MultiDelegates, options: MultiOptions = {}): Promise<solver.Answer[]> {
+    try {
+        return await playLocks(rules, count, delegates, options);
+    }
+    catch (error) {
+        const failure = error instanceof session.SolverError
+            ? error
+            : new session.SolverError('internal', `The solver failed: ${error && error.message || error}`, error);
+        if (delegates.error) {
+            delegates.error(failure);
+        }
+        throw failure;
+    }
+}
+
+/** The main loop itself. Anything it throws that isn't a SolverError is a bug in the solver. */
+async function playLocks(rules: solver.RuleSet, count: number, delegates: MultiDelegates, options: MultiOptions) {
+    const game = new MultiSession(rules, count, options);
+    while (!game.solved()) {
+        const guess = game.nextGuess();
+        const scores = await call('guess', () => delegates.guess(guess, game.remaining()));
+        for (let solved of game.submit(scores, guess)) {
+            await call('solved', () => delegates.solved(solved.lock, solved.answer));
+        }
+    }
+    return game.answers() as solver.Answer[];
+}
+
+/** Calls one of the delegates, wrapping anything it throws in a SolverError of kind delegate. */
+async function call<T>(name: string, delegate: () => T | Promise<T>): Promise<T> {
+    try {
+        return await delegate();
+    }
+    catch (error) {
+        throw error instanceof session.SolverError
+            ? error
+            : new session.SolverError('delegate', `The ${name} delegate failed: ${error && error.message || error}`, error);
+    }
+}
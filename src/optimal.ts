@@ -0,0 +1,307 @@
+import * as crypto from 'crypto';
+import * as _ from 'lodash';
+import * as solver from './lib';
+
+/**
+ * The greedy strategies only ever look one guess ahead, which is how the solver ends up needing 6
+ * guesses for a couple of codes. This module searches the whole game instead, building a decision
+ * tree: a guess to make, and for every score that guess can get, the tree to continue with.
+ *
+ * There are two objectives. "worst" finds a tree that never needs more than a given number of
+ * guesses, or proves that no such tree exists, using a depth-first search that gives up on a guess
+ * as soon as any of its branches can't be solved in time. "average" minimizes the total number of
+ * guesses over every code with a branch-and-bound search. That one is exponential, so by default
+ * it only explores the few most promising guesses at each node.
+ */
+
+/** A guess to make, and the tree to continue with for each score it can get, keyed by scoreKey(). */
+export type DecisionTree = { guess: string, branches: { [score: string]: DecisionTree } };
+
+/** What the tree should be optimized for. */
+export type Objective = 'worst' | 'average';
+
+/** Options for building a decision tree. */
+export type TreeOptions = {
+    objective: Objective,
+
+    /** The maximum number of guesses allowed for any code. Unlimited if not given. */
+    maxDepth?: number,
+
+    /**
+     * For the average objective, the number of guesses explored at each node, ordered by expected size.
+     * The result is only optimal among those guesses. Defaults to 3; use Infinity for an exhaustive search.
+     */
+    width?: number,
+
+    /** Forces the first guess of the tree, rather than searching for the best one. */
+    opener?: string
+}
+
+/** The performance of a decision tree, over every possible code. */
+export type TreeReport = { worst: number, average: number, frequencies: { [attempts: number]: number } };
+
+/** The codes that would give a guess a particular score, keyed by scoreKey(). */
+type Group = { score: string, codes: string[] };
+
+/** A guess worth trying, with the groups it splits the codes into other than the winning one, largest first. */
+type Candidate = { guess: string, groups: Group[], rating: number, possible: boolean };
+
+/** Shared state for a single search. */
+type Search = {
+    rules: solver.RuleSet,
+    guesses: string[],
+    winKey: string,
+
+    /** capacity[d] is an upper bound on the number of codes that can be told apart with d guesses. */
+    capacity: number[],
+
+    failures: Set<string>,
+    averages: Map<string, { tree?: DecisionTree, total: number, bound: number }>
+}
+
+/**
+ * Builds a decision tree over every combination for the rules. Returns undefined if no tree can meet
+ * the maximum depth, which for the worst objective means it's been proven impossible.
+ */
+export function buildDecisionTree(rules: solver.RuleSet, options: TreeOptions): DecisionTree | undefined {
+    const codes = solver.getAllCombinations(rules);
+    const search = createSearch(rules, codes);
+    const opener = options.opener;
+    const maxDepth = options.maxDepth || Infinity;
+
+    if (options.objective == 'average') {
+        const result = solveAverage(search, codes, maxDepth, Infinity, options.width || 3, opener);
+        return result && result.tree;
+    }
+
+    // Without a bound, search for the smallest depth that can be met. Every code takes at least one guess,
+    // and the capacities tell us the depth below which it can't possibly work.
+    if (maxDepth == Infinity) {
+        let depth = 1;
+        while (search.capacity[depth] < codes.length) depth++;
+        while (true) {
+            const tree = solveWorst(search, codes, depth, opener);
+            if (tree) return tree;
+            depth++;
+        }
+    }
+    return solveWorst(search, codes, maxDepth, opener);
+}
+
+/** Determines whether every code can be solved in at most the given number of guesses. */
+export function canSolveWithin(rules: solver.RuleSet, bound: number) {
+    return buildDecisionTree(rules, { objective: 'worst', maxDepth: bound }) !== undefined;
+}
+
+/**
+ * Plays the tree against every possible code, and reports how many guesses each one took. Throws if
+ * the tree doesn't solve a code, so this doubles as a check that the tree is complete.
+ */
+export function evaluateTree(rules: solver.RuleSet, tree: DecisionTree): TreeReport {
+    const frequencies: { [attempts: number]: number } = {};
+    let total = 0;
+    let worst = 0;
+    const codes = solver.getAllCombinations(rules);
+    for (let code of codes) {
+        let node: DecisionTree | undefined = tree;
+        let attempts = 1;
+        while (node.guess != code) {
+            node = node.branches[solver.scoreKey(solver.calculateScore(rules, node.guess, code))];
+            if (!node) {
+                throw new Error(`The decision tree doesn't solve ${code}.`);
+            }
+            attempts++;
+        }
+        frequencies[attempts] = (frequencies[attempts] || 0) + 1;
+        total += attempts;
+        worst = Math.max(worst, attempts);
+    }
+    return { worst, average: total / codes.length, frequencies };
+}
+
+/**
+ * Creates a strategy that plays the decision tree. If the game ever leaves the tree (say, because it
+ * was built for a different opener), the fallback strategy takes over. The name has a fingerprint of
+ * the tree and the fallback in it, ie "tree:1a2b3c4d", so that two trees can be told apart by name.
+ */
+export function treeStrategy(tree: DecisionTree, fallback = solver.minimax): solver.Strategy {
+    const fingerprint = crypto.createHash('sha1').update(JSON.stringify(tree) + fallback.name).digest('hex').substr(0, 8);
+    return {
+        name: `tree:${fingerprint}`,
+        opener: tree.guess,
+        nextGuess: context => {
+            let node: DecisionTree | undefined = tree;
+            for (let turn of context.history) {
+                node = node && node.guess == turn.guess ? node.branches[solver.scoreKey(turn.score)] : undefined;
+            }
+            return node ? node.guess : fallback.nextGuess(context);
+        }
+    };
+}
+
+/** Sets up the state shared by a search, including the capacity of each depth. */
+function createSearch(rules: solver.RuleSet, codes: string[]): Search {
+    // One guess can tell apart a single code. With more, each score other than the winning one leads to
+    // a subtree with one less guess, and the guess itself might be the answer.
+    const scores = solver.getAllPossibleScores(rules).length;
+    const capacity = [0, 1];
+    while (capacity[capacity.length - 1] < codes.length) {
+        capacity.push(1 + (scores - 1) * capacity[capacity.length - 1]);
+    }
+
+    return {
+        rules,
+        guesses: codes,
+        winKey: solver.scoreKey(solver.winningScore(rules)),
+        capacity,
+        failures: new Set<string>(),
+        averages: new Map()
+    };
+}
+
+/** The capacity of a depth. Anything beyond the precomputed capacities can hold every code. */
+function capacityOf(search: Search, depth: number) {
+    return depth < search.capacity.length ? search.capacity[depth] : Infinity;
+}
+
+/** Splits the codes into groups by the score they'd give the guess. */
+function split(rules: solver.RuleSet, guess: string, codes: string[]) {
+    const groups = new Map<string, string[]>();
+    for (let code of codes) {
+        const key = solver.scoreKey(solver.calculateScore(rules, guess, code));
+        const group = groups.get(key);
+        if (group) group.push(code);
+        else groups.set(key, [code]);
+    }
+    return Array.from(groups.entries()).map(([score, codes]): Group => ({ score, codes }));
+}
+
+/**
+ * Orders the guesses worth trying for a set of codes, best first by the given rating, with codes that
+ * could be the answer first among equals. Guesses that can't tell any of the codes apart are dropped.
+ */
+function rankGuesses(search: Search, codes: string[], rate: solver.PartitionRating, opener?: string): Candidate[] {
+    const possible = new Set(codes);
+    const candidates = (opener ? [opener] : search.guesses)
+        .map(guess => {
+            const groups = split(search.rules, guess, codes);
+            const rating = rate(groups.map(g => g.codes.length), codes.length);
+            return {
+                guess,
+                groups: _.sortBy(groups.filter(g => g.score != search.winKey), g => -g.codes.length),
+                rating,
+                possible: possible.has(guess)
+            };
+        })
+        .filter(c => c.possible || c.groups.length > 1);
+    return _.sortBy(candidates, [(c: Candidate) => c.rating, (c: Candidate) => c.possible ? 0 : 1]);
+}
+
+/** Finds a tree for the codes that never needs more than the given number of guesses. */
+function solveWorst(search: Search, codes: string[], depth: number, opener?: string): DecisionTree | undefined {
+    if (codes.length == 1)
+        return { guess: codes[0], branches: {} };
+    if (depth <= 1 || codes.length > capacityOf(search, depth))
+        return undefined;
+
+    // Sets of codes that have already been proven impossible at this depth.
+    const key = depth + ":" + codes.join(',');
+    if (search.failures.has(key))
+        return undefined;
+
+    const limit = capacityOf(search, depth - 1);
+    for (let { guess, groups } of rankGuesses(search, codes, solver.worstCase, opener)) {
+        // bail out early if any group is too large to ever be solved in time.
+        if (groups.some(g => g.codes.length > limit))
+            continue;
+
+        // Try the largest groups first, since they're the most likely to fail.
+        const branches: { [score: string]: DecisionTree } = {};
+        let solved = true;
+        for (let group of groups) {
+            const subtree = solveWorst(search, group.codes, depth - 1);
+            if (!subtree) {
+                solved = false;
+                break;
+            }
+            branches[group.score] = subtree;
+        }
+
+        if (solved)
+            return { guess, branches };
+    }
+
+    search.failures.add(key);
+    return undefined;
+}
+
+/** The fewest guesses it could possibly take to solve every code in a group: one, if it's just the one code. */
+function lowerBound(size: number) {
+    return size == 1 ? 1 : 2 * size - 1;
+}
+
+/**
+ * Finds the tree for the codes with the smallest total number of guesses, provided that total is less
+ * than the limit. Results are remembered for each set of codes, along with the best lower bound proven.
+ */
+function solveAverage(search: Search, codes: string[], depth: number, limit: number, width: number, opener?: string): { tree: DecisionTree, total: number } | undefined {
+    if (codes.length == 1)
+        return { tree: { guess: codes[0], branches: {} }, total: 1 };
+    if (depth <= 1 || codes.length > capacityOf(search, depth))
+        return undefined;
+
+    const key = depth + ":" + codes.join(',');
+    const memo = search.averages.get(key);
+    if (memo && memo.tree)
+        return memo.total < limit ? { tree: memo.tree, total: memo.total } : undefined;
+    if (memo && memo.bound >= limit)
+        return undefined;
+
+    let best: { tree: DecisionTree, total: number } | undefined;
+    const maxGroup = capacityOf(search, depth - 1);
+    const ranked = rankGuesses(search, codes, (sizes, total) => _.sum(sizes.map(s => s * s)) / total, opener);
+    let explored = 0;
+    for (let { guess, groups } of ranked) {
+        if (explored >= width)
+            break;
+
+        // Guesses that can't meet the depth limit don't count towards the width, so that there's always
+        // something to explore when the codes can be solved at all.
+        if (groups.some(g => g.codes.length > maxGroup))
+            continue;
+        if (depth != Infinity && groups.some(g => !solveWorst(search, g.codes, depth - 1)))
+            continue;
+        explored++;
+
+        // Every code pays for this guess, and each group needs at least its lower bound on top of that.
+        const cap = best ? best.total : limit;
+        let bound = codes.length + _.sum(groups.map(g => lowerBound(g.codes.length)));
+        if (bound >= cap)
+            continue;
+
+        // Solve the groups one by one, replacing each lower bound with the real total as we go, and
+        // abandoning the guess as soon as it can't beat the best one found so far.
+        const branches: { [score: string]: DecisionTree } = {};
+        for (let group of groups) {
+            const others = bound - lowerBound(group.codes.length);
+            const subtree = solveAverage(search, group.codes, depth - 1, cap - others, width);
+            if (!subtree) {
+                bound = Infinity;
+                break;
+            }
+            branches[group.score] = subtree.tree;
+            bound = others + subtree.total;
+        }
+
+        if (bound < cap)
+            best = { tree: { guess, branches }, total: bound };
+    }
+
+    // Anything pruned along the way couldn't have beaten the limit, so the best is the best there is.
+    // Finding nothing proves that nothing beats the limit.
+    if (best)
+        search.averages.set(key, { tree: best.tree, total: best.total, bound: best.total });
+    else
+        search.averages.set(key, { total: Infinity, bound: Math.max(limit, memo ? memo.bound : 0) });
+    return best;
+}
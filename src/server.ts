@@ -0,0 +1,347 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as solver from './lib';
+import * as session from './session';
+import * as strategies from './strategies';
+
+/**
+ * A small HTTP/JSON API, so other tools can drive the solver without going through readline. It's
+ * built on nothing but Node's http module. Each game is a SolverSession held in memory, and is
+ * forgotten once it's gone unused for a while.
+ *
+ *  POST   /sessions               { rules?, strategy?, opener?, tolerance? }  Starts a game.
+ *  GET    /sessions/:id           The state of the game, including the next guess.
+ *  GET    /sessions/:id/guess     The next guess.
+ *  POST   /sessions/:id/score     { score, guess? }  Scores the next guess, or the given one.
+ *  POST   /sessions/:id/undo      Takes back the last score.
+ *  GET    /sessions/:id/history   Every guess and score so far.
+ *  GET    /sessions/:id/remaining The codes that could still be the answer.
+ *  DELETE /sessions/:id           Ends the game.
+ *
+ * Rules can be given by name ("lock", "classic", "super", "bulls", "positional") or in full. Scores can be given as text
+ * ("1W2B") or as { white, black }. Errors come back as { error: { code, message, ... } }.
+ *
+ * Every session lists every code when it starts, and one request shouldn't be able to take the whole
+ * server down, so rules with too many codes are turned away. For the same reason, each guess is worked
+ * out within a time budget, rather than holding up every other request for as long as it takes. Sessions
+ * with the same rules share the work that goes into scoring codes (see lib.getCodeSpace()), and once
+ * the server holds as many sessions as it's allowed, new ones are turned away until some expire.
+ */
+
+/** Options for the server. */
+export type ServerOptions = {
+    /** How long a session can go unused before it expires, in milliseconds. Defaults to 30 minutes. */
+    ttl?: number,
+
+    /** The largest request body accepted, in bytes. Defaults to 64KB. */
+    maxBody?: number,
+
+    /** The most codes the rules for a session may have. Defaults to 32768, which is enough for Super Mastermind. */
+    maxCodes?: number,
+
+    /** The most time to spend working out each guess, in milliseconds. Defaults to 1 second. */
+    budget?: number,
+
+    /** The most sessions to hold at once. Defaults to 1000. */
+    maxSessions?: number
+}
+
+/** The limits that apply to every session. */
+type Limits = { ttl: number, maxBody: number, maxCodes: number, budget: number, maxSessions: number };
+
+/** A session, and when it expires. */
+type Entry = { session: session.SolverSession, expires: number };
+
+/** An error to report to the client, with the HTTP status and any details that go along with it. */
+class HttpError extends Error {
+    readonly status: number;
+    readonly code: string;
+    readonly details: object;
+
+    constructor(status: number, code: string, message: string, details: object = {}) {
+        super(message);
+        this.status = status;
+        this.code = code;
+        this.details = details;
+    }
+}
+
+/** Creates the server. It's up to the caller to listen() and close() it. */
+export function createServer(options: ServerOptions = {}) {
+    const limits: Limits = {
+        ttl: options.ttl || 30 * 60 * 1000,
+        maxBody: options.maxBody || 64 * 1024,
+        maxCodes: options.maxCodes || 32768,
+        budget: options.budget || 1000,
+        maxSessions: options.maxSessions || 1000
+    };
+    const ttl = limits.ttl;
+    const sessions = new Map<string, Entry>();
+
+    // Sweep away expired sessions every so often. Unref'd, so it doesn't keep the process alive.
+    const sweeper = setInterval(() => sweep(sessions), Math.min(ttl, 60 * 1000));
+    sweeper.unref();
+
+    const server = http.createServer((request, response) => {
+        handle(request, sessions, limits)
+            .then(([status, body]) => send(response, status, body))
+            .catch(error => {
+                const e = toHttpError(error);
+                send(response, e.status, { error: { code: e.code, message: e.message, ...e.details } });
+            });
+    });
+    server.on('close', () => clearInterval(sweeper));
+    return server;
+}
+
+/** Routes a request, resolving with the status and body of the response. */
+async function handle(request: http.IncomingMessage, sessions: Map<string, Entry>, limits: Limits): Promise<[number, object]> {
+    const { ttl, maxBody } = limits;
+    const path = (request.url || "/").split('?')[0].split('/').filter(p => p.length > 0);
+    const method = request.method || "GET";
+    if (path[0] != "sessions" || path.length > 3) {
+        throw new HttpError(404, 'not-found', `There's nothing at ${request.url}.`);
+    }
+
+    // POST /sessions
+    if (path.length == 1) {
+        allow(method, "POST");
+        const body = await readBody(request, maxBody);
+        sweep(sessions);
+        if (sessions.size >= limits.maxSessions) {
+            throw new HttpError(503, 'too-many-sessions', "The server is holding as many sessions as it can. Try again later.", { maxSessions: limits.maxSessions });
+        }
+        const id = crypto.randomBytes(12).toString('hex');
+        const rules = parseRules(body.rules, limits.maxCodes);
+        const game = new session.SolverSession(rules, {
+            strategy: body.strategy ? createStrategy(body.strategy) : undefined,
+            opener: parseOpener(body.opener, rules),
+            tolerance: parseTolerance(body.tolerance),
+            budget: limits.budget
+        });
+        sessions.set(id, { session: game, expires: Date.now() + ttl });
+        return [201, view(id, game)];
+    }
+
+    // Everything else is about an existing session, which gets a new lease on life.
+    const id = path[1];
+    const entry = sessions.get(id);
+    if (!entry || entry.expires <= Date.now()) {
+        sessions.delete(id);
+        throw new HttpError(404, 'session-not-found', `There's no session ${id}. It may have expired.`);
+    }
+    entry.expires = Date.now() + ttl;
+    const game = entry.session;
+
+    switch (path[2]) {
+        case undefined:
+            if (method == "DELETE") {
+                sessions.delete(id);
+                return [200, { id, deleted: true }];
+            }
+            allow(method, "GET");
+            return [200, view(id, game)];
+        case "guess":
+            allow(method, "GET");
+            if (game.answer()) {
+                throw new HttpError(409, 'solved', "The game is already solved.", { answer: game.answer() });
+            }
+            return [200, { guess: game.nextGuess() }];
+        case "score": {
+            allow(method, "POST");
+            if (game.answer()) {
+                throw new HttpError(409, 'solved', "The game is already solved.", { answer: game.answer() });
+            }
+            const body = await readBody(request, maxBody);
+            const guess = body.guess ? String(body.guess).toUpperCase() : game.nextGuess();
+            if (!solver.isValidCode(game.rules, guess)) {
+                throw new HttpError(400, 'invalid-guess', `"${guess}" isn't a valid code for the rules.`);
+            }
+            game.submit(parseScore(body.score, game.rules), guess);
+            return [200, view(id, game)];
+        }
+        case "undo":
+            allow(method, "POST");
+            return [200, { undone: game.undo() || null, ...view(id, game) }];
+        case "history":
+            allow(method, "GET");
+            return [200, { history: game.history() }];
+        case "remaining":
+            allow(method, "GET");
+            return [200, { count: game.remaining().length, remaining: game.remaining() }];
+        default:
+            throw new HttpError(404, 'not-found', `There's nothing at ${request.url}.`);
+    }
+}
+
+/** Forgets the sessions that have expired. */
+function sweep(sessions: Map<string, Entry>) {
+    const now = Date.now();
+    sessions.forEach((entry, id) => {
+        if (entry.expires <= now) sessions.delete(id);
+    });
+}
+
+/** The state of a session, as reported to the client. */
+function view(id: string, game: session.SolverSession) {
+    const answer = game.answer();
+    return {
+        id,
+        rules: game.rules,
+        strategy: game.strategy.name,
+        history: game.history(),
+        remaining: game.remaining().length,
+        guess: answer ? null : game.nextGuess(),
+        answer: answer || null
+    };
+}
+
+/** Throws unless the request used the expected method. */
+function allow(method: string, expected: string) {
+    if (method != expected) {
+        throw new HttpError(405, 'method-not-allowed', `Expected ${expected}, but got ${method}.`);
+    }
+}
+
+/** Reads and parses a JSON request body. An empty body is an empty object. */
+function readBody(request: http.IncomingMessage, maxBody: number) {
+    return new Promise<any>((resolve, reject) => {
+        let body = "";
+        request.setEncoding('utf8');
+        request.on('data', (chunk: string) => {
+            body += chunk;
+            if (body.length > maxBody) {
+                reject(new HttpError(413, 'too-large', `Request bodies are limited to ${maxBody} bytes.`));
+                request.destroy();
+            }
+        });
+        request.on('end', () => {
+            try {
+                const parsed = body.trim() ? JSON.parse(body) : {};
+                if (typeof parsed != 'object' || parsed === null || Array.isArray(parsed)) {
+                    throw new Error();
+                }
+                resolve(parsed);
+            }
+            catch (_error) {
+                reject(new HttpError(400, 'invalid-json', "The request body must be a JSON object."));
+            }
+        });
+        request.on('error', reject);
+    });
+}
+
+/** Gets the rules for a new session, by name or in full. Defaults to the lock challenge. */
+function parseRules(rules: any, maxCodes: number): solver.RuleSet {
+    if (rules === undefined)
+        return solver.lockChallenge;
+    if (typeof rules == 'string') {
+        if (!solver.ruleSets[rules]) {
+            throw new HttpError(400, 'invalid-rules', `Unknown rules "${rules}".`, { valid: Object.keys(solver.ruleSets) });
+        }
+        return solver.ruleSets[rules];
+    }
+
+    const custom: solver.RuleSet = {
+        colors: rules.colors,
+        length: rules.length,
+        duplicates: !!rules.duplicates,
+        blanks: !!rules.blanks,
+        opener: rules.opener,
+        feedback: rules.feedback
+    };
+    if (!Array.isArray(custom.colors) || !custom.colors.every(c => typeof c == 'string' && c.length == 1) || typeof custom.length != 'number') {
+        throw new HttpError(400, 'invalid-rules', "Rules need a list of single-character colors and a length.");
+    }
+    try {
+        solver.validateRules(custom);
+    }
+    catch (error) {
+        throw new HttpError(400, 'invalid-rules', error.message);
+    }
+    if (countCodes(custom) > maxCodes) {
+        throw new HttpError(400, 'invalid-rules', `The rules allow too many codes. The most a session can have is ${maxCodes}.`, { maxCodes });
+    }
+
+    // rules that are the same as a built-in set get that set, along with its opener if they don't have one.
+    const key = solver.rulesKey(custom);
+    const builtIn = Object.keys(solver.ruleSets).map(name => solver.ruleSets[name])
+        .find(r => solver.rulesKey(r) == key && (custom.opener === undefined || custom.opener == r.opener));
+    return builtIn || custom;
+}
+
+/** 
+ * The number of codes the rules allow, without listing them. With blanks but no duplicates, this counts
+ * too many, which is fine for a limit.
+ */
+function countCodes(rules: solver.RuleSet) {
+    const palette = rules.colors.length + (rules.blanks ? 1 : 0);
+    let count = 1;
+    for (let slot = 0; slot < rules.length; slot++) {
+        count *= rules.duplicates || rules.blanks ? palette : palette - slot;
+    }
+    return count;
+}
+
+/** Gets the opener for a new session, if one was given. It has to be a code the rules allow. */
+function parseOpener(opener: any, rules: solver.RuleSet) {
+    if (opener === undefined)
+        return undefined;
+
+    const code = String(opener).toUpperCase();
+    if (!solver.isValidCode(rules, code)) {
+        throw new HttpError(400, 'invalid-opener', `"${opener}" isn't a valid code for the rules.`);
+    }
+    return code;
+}
+
+/** Gets the number of wrong scores to tolerate for a new session, which has to be a whole number, 0 or more. */
+function parseTolerance(tolerance: any) {
+    if (tolerance === undefined)
+        return undefined;
+    if (typeof tolerance != 'number' || !Number.isInteger(tolerance) || tolerance < 0) {
+        throw new HttpError(400, 'invalid-tolerance', "The tolerance must be a whole number, 0 or more.");
+    }
+    return tolerance;
+}
+
+/** Creates a strategy by name, reporting a bad name as a client error. */
+function createStrategy(name: any) {
+    try {
+        return strategies.createStrategy(String(name));
+    }
+    catch (error) {
+        throw new HttpError(400, 'invalid-strategy', error.message, { valid: strategies.strategyNames });
+    }
+}
+
+/** 
+ * Parses a score given as text or as { white, black, marks? }, validating it against the rules. Objects
+ * are written out the way the rules' feedback model writes them, and parsed the same as text.
+ */
+function parseScore(score: any, rules: solver.RuleSet) {
+    const text = typeof score == 'object' && score !== null
+        ? solver.formatScore(rules, { white: Number(score.white) || 0, black: Number(score.black) || 0, marks: score.marks })
+        : String(score === undefined ? "" : score);
+    const parsed = solver.tryParseScore(text, rules);
+    if (parsed instanceof solver.ScoreError) {
+        throw new HttpError(400, 'invalid-score', parsed.message, { kind: parsed.kind });
+    }
+    return parsed;
+}
+
+/** Turns anything that was thrown into an error for the client. Contradictions are worth explaining. */
+function toHttpError(error: any) {
+    if (error instanceof HttpError)
+        return error;
+    if (error instanceof session.ContradictionError)
+        return new HttpError(409, 'contradiction', error.message, { turn: error.turn, conflicts: error.conflicts });
+    return new HttpError(500, 'internal', error && error.message || String(error));
+}
+
+/** Sends a JSON response. */
+function send(response: http.ServerResponse, status: number, body: object) {
+    const json = JSON.stringify(body);
+    response.writeHead(status, { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(json) });
+    response.end(json);
+}
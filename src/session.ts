@@ -0,0 +1,552 @@
+import * as book from './book';
+import * as solver from './lib';
+import * as strategies from './strategies';
+
+/**
+ * A single game, from the solver's point of view. The session keeps track of every guess and score,
+ * and the codes that could still be the answer, so the consumer doesn't have to. Unlike the main
+ * loop, it doesn't drive the game itself: ask it for a guess, tell it the score, and repeat. That
+ * makes it possible to undo a score, or to save a game half-way through and pick it up again later.
+ *
+ * It also keeps an eye out for garbage in. A score that leaves no code consistent with everything
+ * that's been said is rejected with a ContradictionError, naming the earlier turns it conflicts with,
+ * so the mistyped one can be corrected. Sessions can also be made tolerant of up to k lies or typos,
+ * by keeping every code that contradicts at most k of the scores.
+ *
+ * Working out a guess can take a while with larger rule sets, so a session can be given a time budget
+ * for each one. When the budget runs out, the search stops, and the best guess found so far is made.
+ * The main loop goes further: it searches a few candidates at a time, giving way to the event loop in
+ * between, so it can report its progress, and be cancelled with an AbortSignal. However it ends, it
+ * rejects with a SolverError, saying whether it was cancelled, a delegate failed, or the scores didn't
+ * add up.
+ */
+
+/** The number of candidates rated between checks of the time budget, and of the abort signal. */
+const searchChunk = 32;
+
+/** A turn, along with its position in the history of the game. */
+export type IndexedTurn = solver.Turn & { index: number };
+
+/** A replacement score for one of the turns of the game. An index past the last turn means the current one. */
+export type Correction = { index: number, score: solver.Score };
+
+/**
+ * The parts of an AbortSignal the main loop uses. Node's own AbortSignal will do, as will anything else
+ * with the same shape.
+ */
+export type AbortSignalLike = {
+    readonly aborted: boolean,
+    addEventListener: (type: 'abort', listener: () => void) => void,
+    removeEventListener: (type: 'abort', listener: () => void) => void
+}
+
+/** How far the search for a guess has got. The best guess so far is the one that will be made if time runs out. */
+export type GuessProgress = { turn: number, rated: number, total: number, best: string, elapsed: number };
+
+/**
+ * The things that happen in a game, in order. A guess that was cut short by the time budget isn't
+ * complete, meaning some of the candidates were never rated.
+ */
+export type SolverEvent =
+    { type: 'guess', turn: number, guess: string, remaining: number, complete: boolean } |
+    { type: 'score', turn: number, guess: string, score: solver.Score, remaining: number } |
+    { type: 'correction', index: number, score: solver.Score } |
+    { type: 'solved', answer: solver.Answer };
+
+/**
+ * An object containing callbacks to be called, given various events that can happen during calculation
+ * of a guess.
+ */
+export type Delegates = {
+    guess: solver.Guesser,
+    solved: (answer: solver.Answer) => void;
+
+    /** 
+     * Called with the error the main loop is about to reject with. Not needed by anyone who handles the
+     * loop's promise, but it's there for consumers that don't.
+     */
+    error?: (error: SolverError) => void,
+
+    /** Called every so often while a guess is being worked out. */
+    progress?: (progress: GuessProgress) => void,
+
+    /** Called with everything that happens in the game, as it happens. */
+    event?: (event: SolverEvent) => void,
+
+    /** Called with the reasoning behind each guess, before it's made. See solver.explainGuess(). */
+    explain?: (explanation: solver.Explanation) => void,
+
+    /**
+     * Called when a score contradicts the earlier ones. Resolves with a correction for one of the 
+     * turns, ie the one that was mistyped. Without it, contradictions are sent to error().
+     */
+    contradiction?: (error: ContradictionError) => Promise<Correction>
+}
+
+/** Options for a solver session, or the main loop of the solver. */
+export type SolverOptions = {
+    /** The strategy used to choose every guess after the first. Defaults to minimax. */
+    strategy?: solver.Strategy,
+
+    /** The first guess. Defaults to the opening book's, the strategy's, and then the opener for the rules. */
+    opener?: string,
+
+    /** 
+     * Guesses to play before searching for any, built for the same rules and strategy (see book.ts).
+     * Ignored by sessions that tolerate wrong scores.
+     */
+    book?: book.OpeningBook,
+
+    /** The number of scores that are allowed to be wrong. Defaults to 0, ie every score is the truth. */
+    tolerance?: number,
+
+    /** 
+     * The most time to spend on each guess, in milliseconds. When it runs out, the best guess found so far
+     * is made. Defaults to no limit. Strategies that can't be searched a bit at a time ignore it.
+     */
+    budget?: number
+}
+
+/** Options for the main loop of the solver. */
+export type LoopOptions = SolverOptions & {
+    /** Cancels the game. The loop stops as soon as it can, and rejects with an "aborted" SolverError. */
+    signal?: AbortSignalLike
+}
+
+/** The saved state of a session, as produced by toJSON(). The strategy is saved by name. */
+export type SessionState = {
+    rules: solver.RuleSet,
+    strategy: string,
+    opener: string,
+    tolerance?: number,
+    history: solver.Turn[]
+}
+
+/**
+ * The ways the main loop can fail: it was cancelled, one of the delegates threw or rejected, a score
+ * contradicted the others with no way to correct it, or something went wrong in the solver itself.
+ */
+export type SolverErrorKind = 'aborted' | 'delegate' | 'contradiction' | 'internal';
+
+/** An error the main loop rejects with. The cause is the original error, if there was one. */
+export class SolverError extends Error {
+    readonly kind: SolverErrorKind;
+    readonly cause?: any;
+
+    constructor(kind: SolverErrorKind, message: string, cause?: any) {
+        super(message);
+        this.kind = kind;
+        this.cause = cause;
+    }
+}
+
+/** Thrown when a score leaves no code that's consistent with the rest of the game. */
+export class ContradictionError extends SolverError {
+    /** The turn that was rejected. */
+    readonly turn: IndexedTurn;
+
+    /** The smallest set of earlier turns that the rejected turn can't be reconciled with. */
+    readonly conflicts: IndexedTurn[];
+
+    constructor(turn: IndexedTurn, conflicts: IndexedTurn[], rules: solver.RuleSet) {
+        super('contradiction', `The score for turn ${describeTurn(turn, rules)} contradicts ` +
+            (conflicts.length ? conflicts.map(t => describeTurn(t, rules)).join(", ") : "the rules") + ". One of them must be wrong.");
+        this.turn = turn;
+        this.conflicts = conflicts;
+    }
+}
+
+/** Describes a turn for the user, ie "#2 BGOR 1W2B". */
+function describeTurn(turn: IndexedTurn, rules: solver.RuleSet) {
+    return `#${turn.index + 1} ${turn.guess} ${solver.formatScore(rules, turn.score)}`;
+}
+
+/** A game in progress. See the top of this file. */
+export class SolverSession {
+    readonly rules: solver.RuleSet;
+    readonly strategy: solver.Strategy;
+    readonly opener: string;
+    readonly tolerance: number;
+
+    /** The most time to spend on each guess, in milliseconds, or undefined for no limit. */
+    readonly budget?: number;
+
+    readonly book?: book.OpeningBook;
+
+    /** Every guess made so far, and its score. */
+    private turns: solver.Turn[] = [];
+
+    /** The codes that could be the answer after each turn. The first entry is every combination. */
+    private candidates: string[][];
+
+    /** The guess computed for the current turn, so asking twice doesn't repeat the work. */
+    private pending?: string;
+
+    constructor(rules: solver.RuleSet, options: SolverOptions = {}) {
+        this.rules = rules;
+        this.strategy = options.strategy || solver.minimax;
+        this.tolerance = options.tolerance || 0;
+        this.budget = options.budget;
+
+        // a book is only used when every score is the truth, and its opener only along with it.
+        const opening = this.tolerance == 0 ? options.book : undefined;
+        this.opener = options.opener || (opening && opening.opener) || this.strategy.opener || solver.getOpener(rules);
+        if (opening) {
+            const mismatch = book.bookMismatch(opening, rules, this.strategy, this.opener);
+            if (mismatch) {
+                throw new Error(`The opening book can't be used. ${mismatch}`);
+            }
+            this.book = opening;
+        }
+        this.candidates = [solver.getAllCombinations(rules)];
+    }
+
+    /** Restores a session saved with toJSON(). Strategies that can't be created by name must be provided. */
+    static fromJSON(state: SessionState, strategy?: solver.Strategy) {
+        const session = new SolverSession(state.rules, {
+            strategy: strategy || strategies.createStrategy(state.strategy),
+            opener: state.opener,
+            tolerance: state.tolerance
+        });
+        state.history.forEach(turn => session.submit(turn.score, turn.guess));
+        return session;
+    }
+
+    /** Saves the session in a form that can be serialized to JSON. */
+    toJSON(): SessionState {
+        return {
+            rules: this.rules,
+            strategy: this.strategy.name,
+            opener: this.opener,
+            tolerance: this.tolerance,
+            history: this.history()
+        };
+    }
+
+    /** The guess the solver wants to make next, within the time budget if there is one. */
+    nextGuess() {
+        if (this.answer()) {
+            throw new Error("The game is already solved.");
+        }
+        if (!this.pending) {
+            const search = this.search();
+            if (!search) {
+                this.pending = this.strategy.nextGuess(this.context());
+            }
+            else {
+                const deadline = Date.now() + (this.budget === undefined ? Infinity : this.budget);
+                while (!search.step(searchChunk) && Date.now() < deadline);
+                this.pending = search.best();
+            }
+        }
+        return this.pending;
+    }
+
+    /**
+     * Works out the guess the solver wants to make next, like nextGuess(), but a few candidates at a time,
+     * giving way to the event loop in between. Reports its progress as it goes, and resolves with the guess
+     * and whether every candidate was rated before the time budget ran out. Rejects with an "aborted"
+     * SolverError, leaving the guess to be worked out again, if the signal is aborted.
+     */
+    async findGuess(signal?: AbortSignalLike, progress?: (progress: GuessProgress) => void) {
+        if (this.answer()) {
+            throw new Error("The game is already solved.");
+        }
+        const search = this.pending ? undefined : this.search();
+        if (!search) {
+            return { guess: this.nextGuess(), complete: true };
+        }
+
+        const start = Date.now();
+        const deadline = start + (this.budget === undefined ? Infinity : this.budget);
+        let complete = false;
+        while (!complete) {
+            complete = search.step(searchChunk);
+            if (progress) {
+                progress({ turn: this.turns.length, rated: search.rated, total: search.total, best: search.best(), elapsed: Date.now() - start });
+            }
+            if (Date.now() >= deadline)
+                break;
+
+            await new Promise(resolve => setImmediate(resolve));
+            if (signal && signal.aborted) {
+                throw new SolverError('aborted', "The game was cancelled.");
+            }
+        }
+
+        this.pending = search.best();
+        return { guess: this.pending, complete };
+    }
+
+    /** Explains the guess the solver wants to make next. See solver.explainGuess(). */
+    explain(runnersUp?: number, few?: number) {
+        return solver.explainGuess(this.context(), this.nextGuess(), this.strategy, runnersUp, few);
+    }
+
+    /**
+     * Records the score for a guess, which defaults to the solver's own next guess. Returns the answer if
+     * the score says the guess was correct. Throws a ContradictionError, without recording anything, if
+     * the score leaves no code that could be the answer.
+     */
+    submit(score: solver.Score, guess = this.nextGuess()) {
+        if (this.answer()) {
+            throw new Error("The game is already solved.");
+        }
+
+        const turns = this.turns.concat({ guess, score });
+        const remaining = this.consistent(this.current(), turns);
+        if (remaining.length == 0) {
+            throw this.contradiction(turns, turns.length - 1);
+        }
+
+        this.turns = turns;
+        this.candidates.push(remaining);
+        this.pending = undefined;
+        return this.answer();
+    }
+
+    /**
+     * Finds the earlier turns that a score for a guess would contradict, without recording anything. 
+     * Returns an empty list if the score is consistent with the rest of the game.
+     */
+    conflicts(score: solver.Score, guess = this.nextGuess()): IndexedTurn[] {
+        const turns = this.turns.concat({ guess, score });
+        return this.consistent(this.current(), turns).length == 0
+            ? this.contradiction(turns, turns.length - 1).conflicts
+            : [];
+    }
+
+    /**
+     * Replaces the score of an earlier turn, ie one that was mistyped, and reconsiders every code in light
+     * of it. Throws a ContradictionError, leaving the game as it was, if the new score can't be right either.
+     */
+    correct(index: number, score: solver.Score) {
+        if (index < 0 || index >= this.turns.length) {
+            throw new Error(`There is no turn #${index + 1} to correct.`);
+        }
+
+        const turns = this.turns.map((turn, i) => i == index ? { guess: turn.guess, score } : turn);
+        const candidates = [this.candidates[0]];
+        for (let i = 0; i < turns.length; i++) {
+            const remaining = this.consistent(candidates[i], turns.slice(0, i + 1));
+            if (remaining.length == 0) {
+                throw this.contradiction(turns.slice(0, i + 1), index);
+            }
+            candidates.push(remaining);
+        }
+
+        this.turns = turns;
+        this.candidates = candidates;
+        this.pending = undefined;
+        return this.answer();
+    }
+
+    /** Takes back the last score, returning the turn that was removed. */
+    undo() {
+        if (this.turns.length == 0)
+            return undefined;
+
+        this.candidates.pop();
+        this.pending = undefined;
+        return this.turns.pop();
+    }
+
+    /** The codes that could still be the answer. */
+    remaining() {
+        return this.current().slice();
+    }
+
+    /** Every guess made so far, and its score. */
+    history() {
+        return this.turns.map(turn => ({ guess: turn.guess, score: { ...turn.score } }));
+    }
+
+    /** The answer, if the last guess was correct. */
+    answer(): solver.Answer | undefined {
+        const last = this.turns[this.turns.length - 1];
+        return last && last.score.black == this.rules.length
+            ? { answer: last.guess, attempts: this.turns.length }
+            : undefined;
+    }
+
+    private current() {
+        return this.candidates[this.candidates.length - 1];
+    }
+
+    private context(): solver.StrategyContext {
+        return { rules: this.rules, remaining: this.remaining(), history: this.history() };
+    }
+
+    /** 
+     * Starts a search for the next guess, if one is needed and the strategy can search a bit at a time.
+     * The opener, and anything in the opening book, need no searching for.
+     */
+    private search() {
+        const known = this.turns.length == 0 ? this.opener : this.book && book.lookup(this.book, this.turns);
+        return known !== undefined
+            ? { rated: 0, total: 0, step: () => true, best: () => known }
+            : this.strategy.search && this.strategy.search(this.context());
+    }
+
+    /**
+     * Filters the codes down to those consistent with the turns. The last turn is the new one; the codes
+     * are already known to be consistent with the rest. Every code that contradicts at most "tolerance" 
+     * scores is kept.
+     */
+    private consistent(codes: string[], turns: solver.Turn[]) {
+        const last = turns[turns.length - 1];
+        if (this.tolerance == 0)
+            return solver.parePossibilities(this.rules, codes, last.guess, last.score);
+
+        return codes.filter(code => {
+            let misses = 0;
+            for (let turn of turns) {
+                if (!solver.scoreEquals(solver.calculateScore(this.rules, turn.guess, code), turn.score) && ++misses > this.tolerance)
+                    return false;
+            }
+            return true;
+        });
+    }
+
+    /**
+     * Builds the error for a set of turns that no code is consistent with, blaming the given turn. The
+     * other turns are whittled down to the smallest set that still contradicts it: each one is dropped
+     * in turn, and stays dropped if the contradiction remains without it.
+     */
+    private contradiction(turns: solver.Turn[], blamed: number) {
+        const indexed = turns.map((turn, index) => ({ ...turn, index }));
+        const all = this.candidates[0];
+        let conflicts = indexed.filter(turn => turn.index != blamed);
+        for (let turn of conflicts.slice()) {
+            const without = conflicts.filter(t => t != turn);
+            if (this.contradicts(all, without.concat(indexed[blamed]))) {
+                conflicts = without;
+            }
+        }
+        return new ContradictionError(indexed[blamed], conflicts, this.rules);
+    }
+
+    /** Determines whether no code is consistent with every one of the turns, within the tolerance. */
+    private contradicts(codes: string[], turns: solver.Turn[]) {
+        let remaining = codes;
+        for (let i = 0; i < turns.length && remaining.length; i++) {
+            remaining = this.consistent(remaining, turns.slice(0, i + 1));
+        }
+        return remaining.length == 0;
+    }
+}
+
+/**
+ * Perform the main loop of the solver. A thin wrapper around a session which gets each score from
+ * the delegates. Resolves with the answer once it's been found, or rejects with a SolverError.
+ */
+export async function loop(rules: solver.RuleSet, delegates: Delegates, options: LoopOptions = {}): Promise<solver.Answer> {
+    try {
+        return await play(rules, delegates, options);
+    }
+    catch (error) {
+        const failure = error instanceof SolverError
+            ? error
+            : new SolverError('internal', `The solver failed: ${error && error.message || error}`, error);
+        if (delegates.error) {
+            delegates.error(failure);
+        }
+        throw failure;
+    }
+}
+
+/** The main loop itself. Anything it throws that isn't a SolverError is a bug in the solver. */
+async function play(rules: solver.RuleSet, delegates: Delegates, options: LoopOptions) {
+    const { signal } = options;
+    const session = new SolverSession(rules, options);
+    const notify = (event: SolverEvent) => call(signal, 'event', () => delegates.event && delegates.event(event));
+    const progress = delegates.progress && ((progress: GuessProgress) => {
+        try {
+            delegates.progress!(progress);
+        }
+        catch (error) {
+            throw delegateError('progress', error);
+        }
+    });
+
+    while (true) {
+        // Give the user our guess.
+        const { guess, complete } = await session.findGuess(signal, progress);
+        await notify({ type: 'guess', turn: session.history().length, guess, remaining: session.remaining().length, complete });
+        if (delegates.explain) {
+            const explanation = session.explain();
+            await call(signal, 'explain', () => delegates.explain!(explanation));
+        }
+        let score = await call(signal, 'guess', () => delegates.guess(guess, session.remaining()));
+
+        // Keep asking for corrections until the scores make sense again, if the delegates are able to.
+        let answer: solver.Answer | undefined;
+        while (true) {
+            try {
+                answer = session.submit(score, guess);
+                break;
+            }
+            catch (error) {
+                if (!(error instanceof ContradictionError) || !delegates.contradiction) {
+                    throw error;
+                }
+
+                const correction = await call(signal, 'contradiction', () => delegates.contradiction!(error));
+                await notify({ type: 'correction', index: correction.index, score: correction.score });
+                if (correction.index >= session.history().length) {
+                    score = correction.score;
+                    continue;
+                }
+                try {
+                    session.correct(correction.index, correction.score);
+                }
+                catch (error) {
+                    if (!(error instanceof ContradictionError)) throw error;
+                    // the correction was no good either. Go around again, and the current score will
+                    // be rejected with the earlier turns that are still in the way.
+                }
+            }
+        }
+        await notify({ type: 'score', turn: session.history().length - 1, guess, score, remaining: session.remaining().length });
+
+        // We got it!
+        if (answer) {
+            await notify({ type: 'solved', answer });
+            await call(signal, 'solved', () => delegates.solved(answer!));
+            return answer;
+        }
+    }
+}
+
+/**
+ * Calls one of the delegates, and waits for it if it returns a promise. Anything it throws or rejects
+ * with becomes a "delegate" SolverError. If the signal is aborted in the meantime, stops waiting, and
+ * rejects with an "aborted" SolverError instead.
+ */
+function call<T>(signal: AbortSignalLike | undefined, name: string, delegate: () => T | Promise<T>): Promise<T> {
+    const aborted = () => new SolverError('aborted', "The game was cancelled.");
+    if (signal && signal.aborted) {
+        return Promise.reject(aborted());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+        // the listener goes either way, so a delegate that never settles doesn't leave it behind on the signal.
+        const done = () => { if (signal) signal.removeEventListener('abort', onAbort); };
+        const onAbort = () => { done(); reject(aborted()); };
+        if (signal) signal.addEventListener('abort', onAbort);
+
+        new Promise<T>(run => run(delegate())).then(
+            value => { done(); resolve(value); },
+            error => {
+                done();
+                reject(delegateError(name, error));
+            });
+    });
+}
+
+/** Wraps an error from one of the delegates in a SolverError, unless it already is one. */
+function delegateError(name: string, error: any) {
+    return error instanceof SolverError
+        ? error
+        : new SolverError('delegate', `The ${name} delegate failed: ${error && error.message || error}`, error);
+}
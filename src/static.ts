@@ -0,0 +1,237 @@
+import * as _ from 'lodash';
+import { CodeSpace } from './codespace';
+import * as solver from './lib';
+
+/**
+ * Static solving, for when every guess has to be submitted at once and the scores all come back
+ * together. There's no adapting to one score before making the next guess, so instead we look for a
+ * fixed batch of probes whose scores, taken together, are different for every code. The vector of
+ * scores then identifies the secret outright.
+ *
+ * The "static Mastermind" variant allows one more guess once the scores are back, chosen in light of
+ * them. That lets the batch be smaller: codes can share a vector of scores, as long as some final guess
+ * scores each of them differently.
+ *
+ * Finding the smallest batch is hard, so the search is a beam search. It adds one probe at a time,
+ * keeping the few batches that split the codes into the smallest groups (by the sum of the squares of
+ * their sizes), until one of them tells every code apart. Whatever it finds, verifyPlan() proves it by
+ * decoding every single code.
+ */
+
+/** A batch of probes, and the final guess to make for any scores that don't identify the code alone. */
+export type StaticPlan = {
+    rules: solver.RuleSet,
+
+    /** The guesses to submit all at once. */
+    probes: string[],
+
+    /** The final guess for each vector of scores that needs one, keyed by vectorKey(). */
+    finals: { [vector: string]: string }
+}
+
+/** Options for finding a plan. */
+export type PlanOptions = {
+    /** Whether one final guess may be made after the probes' scores are known. Defaults to false. */
+    adaptive?: boolean,
+
+    /** The number of batches kept at each step of the search. Defaults to 3. */
+    width?: number,
+
+    /** The most probes to try before giving up. Defaults to the number of slots times 3. */
+    maxProbes?: number
+}
+
+/** The results of checking a plan against every code. */
+export type PlanReport = {
+    codes: number,
+    probes: number,
+
+    /** The number of codes that need the final guess. */
+    adaptive: number,
+
+    /**
+     * The most guesses any code needs to open the lock: every probe, the final guess if it needs one, and
+     * then the code itself, unless it was one of those.
+     */
+    guesses: number,
+
+    /** The codes the plan fails to identify. The plan is only sound if this is empty. */
+    failures: string[]
+}
+
+/** A batch of probes being considered, by code id, and the groups of codes they can't tell apart. */
+type Batch = { probes: number[], groups: number[][], cost: number };
+
+/** A canonical form of the scores for a batch of probes, for use as a key. */
+export function vectorKey(scores: solver.Score[]) {
+    return scores.map(solver.scoreKey).join(",");
+}
+
+/** Searches for a plan. Returns undefined if none was found within the maximum number of probes. */
+export function findStaticPlan(rules: solver.RuleSet, options: PlanOptions = {}): StaticPlan | undefined {
+    const space = solver.getCodeSpace(rules);
+    const width = options.width || 3;
+    const maxProbes = options.maxProbes || rules.length * 3;
+    const buckets = new Int32Array(space.scores.length);
+
+    let beam: Batch[] = [{ probes: [], groups: [_.range(space.size)], cost: space.size * space.size }];
+    for (let count = 0; count <= maxProbes; count++) {
+        // the beam is sorted best first, so the first batch that works is the one to use.
+        for (let batch of beam) {
+            const finals = settle(space, batch, !!options.adaptive);
+            if (finals) {
+                return { rules, probes: batch.probes.map(id => space.codes[id]), finals };
+            }
+        }
+        if (count == maxProbes)
+            break;
+
+        // Rate every way of adding another probe to every batch, and keep the best few.
+        const next: { batch: Batch, probe: number, cost: number }[] = [];
+        for (let batch of beam) {
+            for (let probe = 0; probe < space.size; probe++) {
+                if (batch.probes.indexOf(probe) != -1)
+                    continue;
+
+                let cost = 0;
+                for (let group of batch.groups) {
+                    space.partition(probe, group, buckets);
+                    for (let i = 0; i < buckets.length; i++) {
+                        cost += buckets[i] * buckets[i];
+                    }
+                }
+                next.push({ batch, probe, cost });
+            }
+        }
+
+        // the same probes in a different order are the same batch.
+        const seen = new Set<string>();
+        beam = [];
+        for (let { batch, probe, cost } of _.sortBy(next, n => n.cost)) {
+            const key = batch.probes.concat(probe).sort((a, b) => a - b).join(",");
+            if (seen.has(key))
+                continue;
+            seen.add(key);
+            beam.push({ probes: batch.probes.concat(probe), groups: split(space, batch.groups, probe), cost });
+            if (beam.length == width)
+                break;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * The final guess to make, given the scores for the probes, or undefined if the scores already identify
+ * the code.
+ */
+export function finalGuess(plan: StaticPlan, scores: solver.Score[]): string | undefined {
+    return plan.finals[vectorKey(scores.slice(0, plan.probes.length))];
+}
+
+/**
+ * Works out the secret from the scores for the probes, in order, followed by the score for the final
+ * guess if the plan called for one. Throws if no code gives those scores, or if they don't narrow it down
+ * to a single code.
+ */
+export function decode(plan: StaticPlan, scores: solver.Score[]) {
+    if (scores.length < plan.probes.length) {
+        throw new Error(`Every probe needs a score. Expected ${plan.probes.length}, but got ${scores.length}.`);
+    }
+
+    const final = finalGuess(plan, scores);
+    const guesses = final ? plan.probes.concat(final) : plan.probes;
+    let remaining = solver.getAllCombinations(plan.rules);
+    guesses.forEach((guess, i) => {
+        if (scores[i]) {
+            remaining = solver.parePossibilities(plan.rules, remaining, guess, scores[i]);
+        }
+    });
+
+    if (remaining.length == 0) {
+        throw new Error("No code gives those scores. One of them must be wrong.");
+    }
+    if (remaining.length > 1) {
+        throw new Error(final && scores.length == plan.probes.length
+            ? `The scores leave ${remaining.length} codes. Guess ${final} to tell them apart.`
+            : `The scores leave ${remaining.length} codes, and the plan can't tell them apart.`);
+    }
+    return remaining[0];
+}
+
+/** Proves a plan works, by scoring the probes against every code and making sure it decodes back. */
+export function verifyPlan(plan: StaticPlan): PlanReport {
+    const codes = solver.getAllCombinations(plan.rules);
+    const failures: string[] = [];
+    let adaptive = 0;
+    let guesses = 0;
+    for (let code of codes) {
+        const scores = plan.probes.map(probe => solver.calculateScore(plan.rules, probe, code));
+        const final = finalGuess(plan, scores);
+        if (final) {
+            scores.push(solver.calculateScore(plan.rules, final, code));
+            adaptive++;
+        }
+
+        // the final guess only has to tell the codes apart, so it's often not the code itself.
+        const opened = code == final || plan.probes.indexOf(code) != -1;
+        guesses = Math.max(guesses, scores.length + (opened ? 0 : 1));
+
+        try {
+            if (decode(plan, scores) != code) failures.push(code);
+        }
+        catch (_error) {
+            failures.push(code);
+        }
+    }
+
+    return {
+        codes: codes.length,
+        probes: plan.probes.length,
+        adaptive,
+        guesses,
+        failures
+    };
+}
+
+/** Splits each group of codes by the score they give the probe. Groups of one are done, and dropped. */
+function split(space: CodeSpace, groups: number[][], probe: number) {
+    const result: number[][] = [];
+    for (let group of groups) {
+        const byScore: { [id: number]: number[] } = {};
+        for (let code of group) {
+            const id = space.scoreId(probe, code);
+            (byScore[id] = byScore[id] || []).push(code);
+        }
+        _.values(byScore).forEach(g => { if (g.length > 1) result.push(g); });
+    }
+    return result;
+}
+
+/**
+ * Determines whether the groups of codes can all be told apart, returning the final guess for each group
+ * that needs one, keyed by the vector of scores its codes share. Without a final guess, there can't be
+ * any groups left. Otherwise, each one needs a guess that scores every code in it differently; codes in
+ * the group are tried first, since one of them might turn out to be the answer.
+ */
+function settle(space: CodeSpace, batch: Batch, adaptive: boolean) {
+    const finals: { [vector: string]: string } = {};
+    const groups = batch.groups;
+    if (groups.length == 0)
+        return finals;
+    if (!adaptive)
+        return undefined;
+
+    for (let group of groups) {
+        if (group.length > space.scores.length)
+            return undefined;
+
+        const candidates = group.concat(_.range(space.size).filter(id => group.indexOf(id) == -1));
+        const guess = candidates.find(g => _.uniq(group.map(code => space.scoreId(g, code))).length == group.length);
+        if (guess === undefined)
+            return undefined;
+
+        // every code in the group shares the same scores for the probes, so any of them will do for the key.
+        finals[vectorKey(batch.probes.map(probe => space.score(probe, group[0])))] = space.codes[guess];
+    }
+    return finals;
+}
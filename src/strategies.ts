@@ -0,0 +1,100 @@
+import * as _ from 'lodash';
+import * as solver from './lib';
+
+/**
+ * The strategies the solver can use to pick its next guess. All but one of them work the same way:
+ * for each candidate guess, split the remaining codes into groups by the score they'd give that
+ * guess, and rate the guess by the sizes of the groups. They only differ in how they rate:
+ *
+ *  - minimax:  the size of the largest group. Minimizes the codes left over in the worst case.
+ *  - expected: the expected size of the group we end up in, if every remaining code is equally likely.
+ *  - entropy:  the information gained by the guess. Maximizes the bits learned, on average.
+ *  - parts:    the number of groups that aren't empty. More groups means more ways to narrow things down.
+ *  - random:   doesn't rate anything. Picks a candidate at random, as a baseline for the others.
+ *
+ * Each strategy can draw its candidates from the remaining codes (the default), or from every
+ * combination by appending ":all" to its name. Guessing a code that can't be the answer sometimes
+ * splits the rest more evenly, at the cost of never getting lucky.
+ */
+
+/** The partition ratings for each of the heuristic strategies, by name. Lower ratings are better. */
+export const ratings: { [name: string]: solver.PartitionRating } = {
+    // lib.ts loads this module (by way of session.ts) before it's finished loading itself, so nothing
+    // from it can be used until it's called.
+    minimax: sizes => solver.worstCase(sizes),
+    expected: (sizes, total) => _.sum(sizes.map(s => s * s)) / total,
+    entropy: (sizes, total) => _.sum(sizes.filter(s => s > 0).map(s => (s / total) * Math.log2(s / total))),
+    parts: sizes => -sizes.filter(s => s > 0).length
+};
+
+/** The names of every strategy that can be passed to createStrategy(). */
+export const strategyNames = Object.keys(ratings).concat('random');
+
+/**
+ * Creates a strategy from its name, in the form "name[:pool[:seed]]". For example: "minimax",
+ * "entropy:all", or "random:remaining:42". The seed is only used by the random strategy.
+ */
+export function createStrategy(spec: string): solver.Strategy {
+    const [name, pool = 'remaining', seed = '0'] = spec.split(':');
+    if (pool != 'remaining' && pool != 'all') {
+        throw new Error(`Unknown candidate pool "${pool}". Valid pools are: remaining, all`);
+    }
+    if (name == 'random') {
+        return randomStrategy(pool, parseInt(seed) || 0);
+    }
+    if (!ratings[name]) {
+        throw new Error(`Unknown strategy "${name}". Valid strategies are: ${strategyNames.join(", ")}`);
+    }
+
+    // reuse the default instance for minimax, so its name and behavior are identical.
+    return name == 'minimax' && pool == 'remaining'
+        ? solver.minimax
+        : solver.heuristicStrategy(name, ratings[name], pool);
+}
+
+/**
+ * Creates a strategy that picks an unused candidate at random. The generator is seeded from the seed
+ * and everything that's happened in the game so far, so the same game always gets the same guess.
+ */
+export function randomStrategy(pool: solver.CandidatePool = 'remaining', seed = 0): solver.Strategy {
+    return {
+        name: `random:${pool}:${seed}`,
+        nextGuess: ({ rules, remaining, history }) => {
+            // No sense in gambling if we already know the answer.
+            if (remaining.length == 1)
+                return remaining[0];
+
+            const used = new Set(history.map(h => h.guess));
+            const candidates = (pool == 'remaining' ? remaining : solver.getAllCombinations(rules))
+                .filter(c => !used.has(c));
+
+            // when scores can be wrong, every code that's left may have been guessed already.
+            if (candidates.length == 0)
+                return remaining[0];
+
+            const state = history.map(h => h.guess + solver.printScore(h.score)).join(',');
+            const random = seededRandom(hash(state) ^ seed);
+            return candidates[Math.floor(random() * candidates.length)];
+        }
+    };
+}
+
+/** A simple 32-bit string hash (djb2), for seeding the random strategy. */
+function hash(str: string) {
+    let h = 5381;
+    for (let i = 0; i < str.length; i++) {
+        h = ((h << 5) + h + str.charCodeAt(i)) | 0;
+    }
+    return h;
+}
+
+/** A small seedable pseudo-random number generator (mulberry32). Math.random() can't be seeded. */
+function seededRandom(seed: number) {
+    let state = seed | 0;
+    return () => {
+        state = (state + 0x6D2B79F5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
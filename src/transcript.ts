@@ -0,0 +1,196 @@
+import * as solver from './lib';
+import * as session from './session';
+import * as strategies from './strategies';
+
+/**
+ * Game transcripts. A transcript is a JSONL file, one entry per line: the rules and strategy the game
+ * started with, then every guess along with the score that was entered for it and the number of codes
+ * the guess was chosen from, any corrections, and the answer. Several games can share a file, each one
+ * beginning with its own "start" entry.
+ *
+ * Replaying a transcript feeds the recorded scores back through a fresh session, and checks that the
+ * solver still makes the same guesses. That turns games played for real into regression fixtures: after
+ * a change to a strategy, a replay points out the first turn where the solver would have done otherwise,
+ * and if the game was solved, how many guesses the solver takes now.
+ */
+
+/** The first entry of every game. The opener is the first guess that was actually made. */
+export type StartEntry = {
+    type: 'start',
+    rules: solver.RuleSet,
+    strategy: string,
+    opener: string,
+    tolerance: number,
+    time: string
+}
+
+/** A guess, the score entered for it, and the number of codes that could have been the answer. */
+export type TurnEntry = { type: 'turn', guess: string, score: solver.Score, remaining: number };
+
+/** A score that was corrected after a contradiction. See session.Correction. */
+export type CorrectionEntry = { type: 'correction', index: number, score: solver.Score };
+
+export type SolvedEntry = { type: 'solved', answer: string, attempts: number };
+
+export type TranscriptEntry = StartEntry | TurnEntry | CorrectionEntry | SolvedEntry;
+
+/** A single game, from its start entry on. */
+export type Transcript = TranscriptEntry[];
+
+/** Where a replay first parted ways with the transcript. The index is the turn, counting from 0. */
+export type Divergence = {
+    index: number,
+    recorded: { guess: string, remaining: number },
+    replayed: { guess: string, remaining: number }
+}
+
+export type ReplayReport = {
+    /** The number of recorded turns the replay agreed with. */
+    matched: number,
+
+    divergence?: Divergence,
+
+    /** The answer the game ended with, if it was solved. */
+    recorded?: solver.Answer,
+
+    /**
+     * The answer the replay ended with. After a divergence, the replay keeps playing against the recorded
+     * answer, if there is one, so the two can be compared.
+     */
+    replayed?: solver.Answer
+}
+
+/**
+ * Wraps the delegates so that everything that happens in the game is written to the transcript, one line
+ * at a time, as it happens. A game that's abandoned half-way through still leaves a record behind.
+ */
+export function recordTranscript(rules: solver.RuleSet, options: session.SolverOptions, delegates: session.Delegates,
+    write: (line: string) => void): session.Delegates {
+    const strategy = options.strategy || solver.minimax;
+    const record = (entry: TranscriptEntry) => write(JSON.stringify(entry));
+    let started = false;
+
+    return {
+        ...delegates,
+        guess: async (guess, remaining) => {
+            if (!started) {
+                record({ type: 'start', rules, strategy: strategy.name, opener: guess, tolerance: options.tolerance || 0, time: new Date().toISOString() });
+                started = true;
+            }
+            const score = await delegates.guess(guess, remaining);
+            record({ type: 'turn', guess, score, remaining: remaining ? remaining.length : 0 });
+            return score;
+        },
+        contradiction: delegates.contradiction && (async error => {
+            const correction = await delegates.contradiction!(error);
+            record({ type: 'correction', index: correction.index, score: correction.score });
+            return correction;
+        }),
+        solved: answer => {
+            record({ type: 'solved', answer: answer.answer, attempts: answer.attempts });
+            delegates.solved(answer);
+        }
+    };
+}
+
+/** Parses a JSONL transcript into its games. Blank lines are ignored. */
+export function parseTranscripts(text: string) {
+    const games: Transcript[] = [];
+    text.split(/\r?\n/).forEach((line, i) => {
+        if (!line.trim())
+            return;
+
+        let entry: TranscriptEntry;
+        try {
+            entry = JSON.parse(line);
+        }
+        catch (_error) {
+            throw new Error(`Line ${i + 1} of the transcript isn't valid JSON.`);
+        }
+        if (entry.type == 'start') {
+            games.push([]);
+        }
+        else if (games.length == 0) {
+            throw new Error(`Line ${i + 1} of the transcript comes before the start of any game.`);
+        }
+        games[games.length - 1].push(entry);
+    });
+    return games;
+}
+
+/**
+ * Replays a game through a fresh session, with the recorded strategy unless another one is given. The
+ * recorded opener is kept, since a different first guess would make every recorded score meaningless.
+ */
+export function replay(transcript: Transcript, strategy?: solver.Strategy): ReplayReport {
+    const start = transcript[0];
+    if (!start || start.type != 'start') {
+        throw new Error("A transcript must begin with a start entry.");
+    }
+
+    const game = new session.SolverSession(start.rules, {
+        strategy: strategy || strategies.createStrategy(start.strategy),
+        opener: start.opener,
+        tolerance: start.tolerance
+    });
+    const solved = transcript.find(entry => entry.type == 'solved') as SolvedEntry | undefined;
+    const report: ReplayReport = {
+        matched: 0,
+        recorded: solved && { answer: solved.answer, attempts: solved.attempts }
+    };
+
+    // Follow the transcript for as long as the solver agrees with it. A score that was rejected waits
+    // for the corrections that follow it, the same way the main loop does.
+    let rejected: TurnEntry | undefined;
+    for (let entry of transcript) {
+        if (entry.type == 'turn') {
+            const replayed = { guess: game.nextGuess(), remaining: game.remaining().length };
+            if (replayed.guess != entry.guess || replayed.remaining != entry.remaining) {
+                report.divergence = { index: game.history().length, recorded: { guess: entry.guess, remaining: entry.remaining }, replayed };
+                break;
+            }
+            report.matched++;
+            rejected = submit(game, entry.score, entry.guess) ? undefined : entry;
+        }
+        else if (entry.type == 'correction' && rejected) {
+            if (entry.index >= game.history().length) {
+                rejected = { ...rejected, score: entry.score };
+            }
+            else {
+                try {
+                    game.correct(entry.index, entry.score);
+                }
+                catch (error) {
+                    if (!(error instanceof session.ContradictionError)) throw error;
+                }
+            }
+            rejected = submit(game, rejected.score, rejected.guess) ? undefined : rejected;
+        }
+    }
+
+    // Once the replay has gone its own way, the recorded scores don't apply any more. If the answer is
+    // known, play on against it to see how the solver does now.
+    if (report.divergence && report.recorded) {
+        const secret = report.recorded.answer;
+        while (!game.answer()) {
+            // a lie the game tolerated can still rule out the answer, in which case there's no going on.
+            const guess = game.nextGuess();
+            if (!submit(game, solver.calculateScore(start.rules, guess, secret), guess))
+                break;
+        }
+    }
+    report.replayed = game.answer();
+    return report;
+}
+
+/** Submits a score to the session, returning false if it was rejected as a contradiction. */
+function submit(game: session.SolverSession, score: solver.Score, guess: string) {
+    try {
+        game.submit(score, guess);
+        return true;
+    }
+    catch (error) {
+        if (!(error instanceof session.ContradictionError)) throw error;
+        return false;
+    }
+}
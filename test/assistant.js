@@ -0,0 +1,46 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+var chai = require("chai");
+var expect = chai.expect;
+var assistant = require("../dist/assistant");
+var picker = require("../dist/lib");
+var strategies = require("../dist/strategies");
+describe('assistant', function () {
+    var rules = picker.lockChallenge;
+    var all = picker.getAllCombinations(rules);
+    it('should rate a guess against the best one', function () {
+        var history = [{ guess: "PYGO", score: { white: 2, black: 0 } }];
+        var remaining = picker.parePossibilities(rules, all, "PYGO", history[0].score);
+        var score = picker.calculateScore(rules, "BGOR", "BOYG");
+        var rating = assistant.rateGuess({ rules: rules, remaining: remaining, history: history }, "BOYG", score);
+        expect(rating.before).to.equal(84);
+        expect(rating.after).to.be.above(0);
+        expect(rating.after).to.equal(picker.parePossibilities(rules, remaining, "BOYG", score).length);
+        expect(rating.worst).to.equal(Math.max.apply(Math, picker.partition(rules, "BOYG", remaining)));
+        expect(rating.best.expected).to.be.at.most(rating.expected);
+        expect(rating.quality).to.be.above(0).and.at.most(1);
+        // nothing in the pool can beat the best guess.
+        all.forEach(function (code) {
+            var expected = strategies.ratings.expected(picker.partition(rules, code, remaining), remaining.length);
+            expect(expected).to.be.at.least(rating.best.expected);
+        });
+    });
+    it('should call the best guess as good as any', function () {
+        var remaining = all;
+        var first = assistant.rateGuess({ rules: rules, remaining: remaining, history: [] }, "PYGO", { white: 2, black: 0 });
+        expect(first.quality).to.equal(1);
+        expect(first.best.guess).to.equal("PYGO");
+        expect(first.after).to.equal(84);
+    });
+    it('should rate the guess it suggests as good as any', function () {
+        for (var _i = 0, _a = [{ white: 0, black: 2 }, { white: 2, black: 0 }, { white: 1, black: 1 }, { white: 4, black: 0 }]; _i < _a.length; _i++) {
+            var score = _a[_i];
+            var history = [{ guess: "PYGO", score: score }];
+            var context_1 = { rules: rules, remaining: picker.parePossibilities(rules, all, "PYGO", score), history: history };
+            var suggestion = assistant.suggest(context_1);
+            var rating = assistant.rateGuess(context_1, suggestion, picker.calculateScore(rules, context_1.remaining[0], suggestion));
+            expect(rating.quality).to.equal(1);
+            expect(rating.best.guess).to.equal(suggestion);
+        }
+    });
+});
@@ -0,0 +1,50 @@
+import * as chai from 'chai';
+var expect = chai.expect;
+
+import * as assistant from '../dist/assistant';
+import * as picker from '../dist/lib';
+import * as strategies from '../dist/strategies';
+
+describe('assistant', () => {
+    const rules = picker.lockChallenge;
+    const all = picker.getAllCombinations(rules);
+
+    it('should rate a guess against the best one', () => {
+        const history = [{ guess: "PYGO", score: { white: 2, black: 0 } }];
+        const remaining = picker.parePossibilities(rules, all, "PYGO", history[0].score);
+        const score = picker.calculateScore(rules, "BGOR", "BOYG");
+        const rating = assistant.rateGuess({ rules, remaining, history }, "BOYG", score);
+
+        expect(rating.before).to.equal(84);
+        expect(rating.after).to.be.above(0);
+        expect(rating.after).to.equal(picker.parePossibilities(rules, remaining, "BOYG", score).length);
+        expect(rating.worst).to.equal(Math.max(...picker.partition(rules, "BOYG", remaining)));
+        expect(rating.best.expected).to.be.at.most(rating.expected);
+        expect(rating.quality).to.be.above(0).and.at.most(1);
+
+        // nothing in the pool can beat the best guess.
+        all.forEach(code => {
+            const expected = strategies.ratings.expected(picker.partition(rules, code, remaining), remaining.length);
+            expect(expected).to.be.at.least(rating.best.expected);
+        });
+    });
+
+    it('should call the best guess as good as any', () => {
+        const remaining = all;
+        const first = assistant.rateGuess({ rules, remaining, history: [] }, "PYGO", { white: 2, black: 0 });
+        expect(first.quality).to.equal(1);
+        expect(first.best.guess).to.equal("PYGO");
+        expect(first.after).to.equal(84);
+    });
+
+    it('should rate the guess it suggests as good as any', () => {
+        for (let score of [{ white: 0, black: 2 }, { white: 2, black: 0 }, { white: 1, black: 1 }, { white: 4, black: 0 }]) {
+            const history = [{ guess: "PYGO", score }];
+            const context = { rules, remaining: picker.parePossibilities(rules, all, "PYGO", score), history };
+            const suggestion = assistant.suggest(context);
+            const rating = assistant.rateGuess(context, suggestion, picker.calculateScore(rules, context.remaining[0], suggestion));
+            expect(rating.quality).to.equal(1);
+            expect(rating.best.guess).to.equal(suggestion);
+        }
+    });
+});
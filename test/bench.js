@@ -0,0 +1,84 @@
+"use strict";
+var __awaiter = (this && this.__awaiter) || function (thisArg, _arguments, P, generator) {
+    return new (P || (P = Promise))(function (resolve, reject) {
+        function fulfilled(value) { try { step(generator.next(value)); } catch (e) { reject(e); } }
+        function rejected(value) { try { step(generator["throw"](value)); } catch (e) { reject(e); } }
+        function step(result) { result.done ? resolve(result.value) : new P(function (resolve) { resolve(result.value); }).then(fulfilled, rejected); }
+        step((generator = generator.apply(thisArg, _arguments || [])).next());
+    });
+};
+var __generator = (this && this.__generator) || function (thisArg, body) {
+    var _ = { label: 0, sent: function() { if (t[0] & 1) throw t[1]; return t[1]; }, trys: [], ops: [] }, f, y, t, g;
+    return g = { next: verb(0), "throw": verb(1), "return": verb(2) }, typeof Symbol === "function" && (g[Symbol.iterator] = function() { return this; }), g;
+    function verb(n) { return function (v) { return step([n, v]); }; }
+    function step(op) {
+        if (f) throw new TypeError("Generator is already executing.");
+        while (_) try {
+            if (f = 1, y && (t = y[op[0] & 2 ? "return" : op[0] ? "throw" : "next"]) && !(t = t.call(y, op[1])).done) return t;
+            if (y = 0, t) op = [0, t.value];
+            switch (op[0]) {
+                case 0: case 1: t = op; break;
+                case 4: _.label++; return { value: op[1], done: false };
+                case 5: _.label++; y = op[1]; op = [0]; continue;
+                case 7: op = _.ops.pop(); _.trys.pop(); continue;
+                default:
+                    if (!(t = _.trys, t = t.length > 0 && t[t.length - 1]) && (op[0] === 6 || op[0] === 2)) { _ = 0; continue; }
+                    if (op[0] === 3 && (!t || (op[1] > t[0] && op[1] < t[3]))) { _.label = op[1]; break; }
+                    if (op[0] === 6 && _.label < t[1]) { _.label = t[1]; t = op; break; }
+                    if (t && _.label < t[2]) { _.label = t[2]; _.ops.push(op); break; }
+                    if (t[2]) _.ops.pop();
+                    _.trys.pop(); continue;
+            }
+            op = body.call(thisArg, _);
+        } catch (e) { op = [6, e]; y = 0; } finally { f = t = 0; }
+        if (op[0] & 5) throw op[1]; return { value: op[0] ? op[1] : void 0, done: true };
+    }
+};
+var _this = this;
+Object.defineProperty(exports, "__esModule", { value: true });
+var chai = require("chai");
+var expect = chai.expect;
+var fs = require("fs");
+var path = require("path");
+var bench = require("../dist/bench");
+var picker = require("../dist/lib");
+describe('benchmarks', function () {
+    it('should summarize the attempts for every secret', function () {
+        var result = bench.summarize({ BGOR: 1, GORY: 3, ORYP: 3, RYPB: 5 });
+        expect(result.average).to.equal(3);
+        expect(result.worst).to.equal(5);
+        expect(result.count).to.equal(4);
+        expect(result.hardest).to.deep.equal(["RYPB"]);
+        expect(result.frequencies).to.deep.equal({ 1: 1, 3: 2, 5: 1 });
+        expect(result.stddev).to.be.closeTo(Math.sqrt(2), 1e-9);
+    });
+    it('should reproduce the results for the default opener', function () { return __awaiter(_this, void 0, void 0, function () {
+        var recorded, result;
+        return __generator(this, function (_a) {
+            switch (_a.label) {
+                case 0:
+                    recorded = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'results.json'), 'utf8'));
+                    return [4 /*yield*/, bench.runBenchmark(picker.lockChallenge, { opener: "PYGO" })];
+                case 1:
+                    result = _a.sent();
+                    expect(result.average).to.equal(recorded.PYGO.average);
+                    expect(result.frequencies).to.deep.equal(recorded.PYGO.frequencies);
+                    expect(bench.resultKey("PYGO", picker.minimax)).to.equal("PYGO");
+                    return [2 /*return*/];
+            }
+        });
+    }); });
+    it('should only call a difference significant when it is unlikely to be noise', function () {
+        var before = { PYGO: { average: 0, frequencies: { 4: 50, 5: 50 } } };
+        var slightly = { PYGO: { average: 0, frequencies: { 4: 51, 5: 49 } } };
+        var much = { PYGO: { average: 0, frequencies: { 3: 50, 4: 50 } }, BGOR: { average: 0, frequencies: { 4: 1 } } };
+        var noise = bench.diffResults(before, slightly);
+        expect(noise.length).to.equal(1);
+        expect(noise[0].change).to.be.closeTo(-0.01, 1e-9);
+        expect(noise[0].significant).to.equal(false);
+        var improved = bench.diffResults(before, much);
+        expect(improved.length).to.equal(1);
+        expect(improved[0].significant).to.equal(true);
+        expect(improved[0].worstChange).to.equal(-1);
+    });
+});
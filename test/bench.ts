@@ -0,0 +1,43 @@
+import * as chai from 'chai';
+var expect = chai.expect;
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as bench from '../dist/bench';
+import * as picker from '../dist/lib';
+
+describe('benchmarks', () => {
+    it('should summarize the attempts for every secret', () => {
+        const result = bench.summarize({ BGOR: 1, GORY: 3, ORYP: 3, RYPB: 5 });
+        expect(result.average).to.equal(3);
+        expect(result.worst).to.equal(5);
+        expect(result.count).to.equal(4);
+        expect(result.hardest).to.deep.equal(["RYPB"]);
+        expect(result.frequencies).to.deep.equal({ 1: 1, 3: 2, 5: 1 });
+        expect(result.stddev).to.be.closeTo(Math.sqrt(2), 1e-9);
+    });
+
+    it('should reproduce the results for the default opener', async () => {
+        const recorded = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'results.json'), 'utf8'));
+        const result = await bench.runBenchmark(picker.lockChallenge, { opener: "PYGO" });
+        expect(result.average).to.equal(recorded.PYGO.average);
+        expect(result.frequencies).to.deep.equal(recorded.PYGO.frequencies);
+        expect(bench.resultKey("PYGO", picker.minimax)).to.equal("PYGO");
+    });
+
+    it('should only call a difference significant when it is unlikely to be noise', () => {
+        const before = { PYGO: { average: 0, frequencies: { 4: 50, 5: 50 } } };
+        const slightly = { PYGO: { average: 0, frequencies: { 4: 51, 5: 49 } } };
+        const much = { PYGO: { average: 0, frequencies: { 3: 50, 4: 50 } }, BGOR: { average: 0, frequencies: { 4: 1 } } };
+
+        const noise = bench.diffResults(before, slightly);
+        expect(noise.length).to.equal(1);
+        expect(noise[0].change).to.be.closeTo(-0.01, 1e-9);
+        expect(noise[0].significant).to.equal(false);
+
+        const improved = bench.diffResults(before, much);
+        expect(improved.length).to.equal(1);
+        expect(improved[0].significant).to.equal(true);
+        expect(improved[0].worstChange).to.equal(-1);
+    });
+});
@@ -0,0 +1,77 @@
+"use strict";
+var __assign = (this && this.__assign) || Object.assign || function(t) {
+    for (var s, i = 1, n = arguments.length; i < n; i++) {
+        s = arguments[i];
+        for (var p in s) if (Object.prototype.hasOwnProperty.call(s, p))
+            t[p] = s[p];
+    }
+    return t;
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+var chai = require("chai");
+var expect = chai.expect;
+var book = require("../dist/book");
+var picker = require("../dist/lib");
+var optimal = require("../dist/optimal");
+var session = require("../dist/session");
+var strategies = require("../dist/strategies");
+describe('opening books', function () {
+    var rules = picker.lockChallenge;
+    /** Plays a session against the secret, returning every guess it made. */
+    function play(game, secret) {
+        var guesses = [];
+        while (!game.answer()) {
+            guesses.push(game.nextGuess());
+            game.submit(picker.calculateScore(rules, guesses[guesses.length - 1], secret));
+        }
+        return guesses;
+    }
+    it('should play the same guesses as the strategy', function () {
+        var strategy = strategies.createStrategy("entropy");
+        var opening = book.buildBook(rules, strategy, { depth: 3 });
+        expect(opening.moves[""]).to.equal("PYGO");
+        expect(Object.keys(opening.moves).length).to.be.greaterThan(14);
+        picker.getAllCombinations(rules).filter(function (_code, i) { return i % 5 == 0; }).forEach(function (secret) {
+            expect(play(new session.SolverSession(rules, { strategy: strategy, book: opening }), secret))
+                .to.deep.equal(play(new session.SolverSession(rules, { strategy: strategy }), secret));
+        });
+    });
+    it('should key positions by the guesses and scores so far', function () {
+        var opening = book.buildBook(rules, picker.minimax);
+        var history = [{ guess: "PYGO", score: { white: 1, black: 2 } }];
+        expect(book.bookKey(history)).to.equal("PYGO 1W2B");
+        expect(book.lookup(opening, history)).to.equal(opening.moves["PYGO 1W2B"]);
+        expect(book.lookup(opening, history.concat({ guess: "BGOR", score: { white: 0, black: 1 } }))).to.be.undefined;
+    });
+    it('should survive a trip through JSON', function () {
+        var custom = __assign({}, rules, { opener: undefined });
+        var saved = JSON.parse(JSON.stringify(book.buildBook(custom, picker.minimax)));
+        expect(book.bookMismatch(saved, custom, picker.minimax)).to.be.undefined;
+        expect(new session.SolverSession(custom, { book: saved }).nextGuess()).to.equal(saved.opener);
+    });
+    it('should say why a book does not fit', function () {
+        var opening = book.buildBook(rules, picker.minimax);
+        expect(book.bookMismatch(opening, picker.classicMastermind, picker.minimax)).to.match(/other rules/);
+        expect(book.bookMismatch(opening, rules, strategies.createStrategy("entropy"))).to.match(/entropy/);
+        expect(book.bookMismatch(opening, rules, picker.minimax, "BGOR")).to.match(/BGOR/);
+        expect(book.bookMismatch(__assign({}, opening, { version: 0 }), rules, picker.minimax)).to.match(/format/);
+        expect(book.bookMismatch(__assign({}, opening, { moves: __assign({}, opening.moves, { "PYGO 4W": "PPPP" }) }), rules, picker.minimax)).to.match(/PPPP/);
+    });
+    it('should tell decision trees apart', function () {
+        var tree = optimal.buildDecisionTree(rules, { objective: 'worst', opener: "PYGO" });
+        var other = optimal.buildDecisionTree(rules, { objective: 'worst', opener: "BGOR" });
+        var opening = book.buildBook(rules, optimal.treeStrategy(tree));
+        var copy = optimal.treeStrategy(JSON.parse(JSON.stringify(tree)));
+        expect(book.bookMismatch(opening, rules, copy)).to.be.undefined;
+        expect(book.bookMismatch(opening, rules, optimal.treeStrategy(other))).to.match(/tree:/);
+    });
+    it('should refuse a book that does not fit, unless scores can be wrong', function () {
+        var opening = book.buildBook(picker.classicMastermind, picker.minimax);
+        expect(function () { return new session.SolverSession(rules, { book: opening }); }).to.throw(/other rules/);
+        expect(new session.SolverSession(rules, { book: opening, tolerance: 1 }).book).to.be.undefined;
+        // nor its opener.
+        var other = book.buildBook(rules, picker.minimax, { opener: "BGOR" });
+        expect(new session.SolverSession(rules, { book: other }).opener).to.equal("BGOR");
+        expect(new session.SolverSession(rules, { book: other, tolerance: 1 }).opener).to.equal("PYGO");
+    });
+});
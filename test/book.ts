@@ -0,0 +1,78 @@
+import * as chai from 'chai';
+var expect = chai.expect;
+
+import * as book from '../dist/book';
+import * as picker from '../dist/lib';
+import * as optimal from '../dist/optimal';
+import * as session from '../dist/session';
+import * as strategies from '../dist/strategies';
+
+describe('opening books', () => {
+    const rules = picker.lockChallenge;
+
+    /** Plays a session against the secret, returning every guess it made. */
+    function play(game: session.SolverSession, secret: string) {
+        const guesses: string[] = [];
+        while (!game.answer()) {
+            guesses.push(game.nextGuess());
+            game.submit(picker.calculateScore(rules, guesses[guesses.length - 1], secret));
+        }
+        return guesses;
+    }
+
+    it('should play the same guesses as the strategy', () => {
+        const strategy = strategies.createStrategy("entropy");
+        const opening = book.buildBook(rules, strategy, { depth: 3 });
+        expect(opening.moves[""]).to.equal("PYGO");
+        expect(Object.keys(opening.moves).length).to.be.greaterThan(14);
+
+        picker.getAllCombinations(rules).filter((_code, i) => i % 5 == 0).forEach(secret => {
+            expect(play(new session.SolverSession(rules, { strategy, book: opening }), secret))
+                .to.deep.equal(play(new session.SolverSession(rules, { strategy }), secret));
+        });
+    });
+
+    it('should key positions by the guesses and scores so far', () => {
+        const opening = book.buildBook(rules, picker.minimax);
+        const history = [{ guess: "PYGO", score: { white: 1, black: 2 } }];
+        expect(book.bookKey(history)).to.equal("PYGO 1W2B");
+        expect(book.lookup(opening, history)).to.equal(opening.moves["PYGO 1W2B"]);
+        expect(book.lookup(opening, history.concat({ guess: "BGOR", score: { white: 0, black: 1 } }))).to.be.undefined;
+    });
+
+    it('should survive a trip through JSON', () => {
+        const custom: picker.RuleSet = { ...rules, opener: undefined };
+        const saved = JSON.parse(JSON.stringify(book.buildBook(custom, picker.minimax)));
+        expect(book.bookMismatch(saved, custom, picker.minimax)).to.be.undefined;
+        expect(new session.SolverSession(custom, { book: saved }).nextGuess()).to.equal(saved.opener);
+    });
+
+    it('should say why a book does not fit', () => {
+        const opening = book.buildBook(rules, picker.minimax);
+        expect(book.bookMismatch(opening, picker.classicMastermind, picker.minimax)).to.match(/other rules/);
+        expect(book.bookMismatch(opening, rules, strategies.createStrategy("entropy"))).to.match(/entropy/);
+        expect(book.bookMismatch(opening, rules, picker.minimax, "BGOR")).to.match(/BGOR/);
+        expect(book.bookMismatch({ ...opening, version: 0 }, rules, picker.minimax)).to.match(/format/);
+        expect(book.bookMismatch({ ...opening, moves: { ...opening.moves, "PYGO 4W": "PPPP" } }, rules, picker.minimax)).to.match(/PPPP/);
+    });
+
+    it('should tell decision trees apart', () => {
+        const tree = optimal.buildDecisionTree(rules, { objective: 'worst', opener: "PYGO" })!;
+        const other = optimal.buildDecisionTree(rules, { objective: 'worst', opener: "BGOR" })!;
+        const opening = book.buildBook(rules, optimal.treeStrategy(tree));
+        const copy = optimal.treeStrategy(JSON.parse(JSON.stringify(tree)));
+        expect(book.bookMismatch(opening, rules, copy)).to.be.undefined;
+        expect(book.bookMismatch(opening, rules, optimal.treeStrategy(other))).to.match(/tree:/);
+    });
+
+    it('should refuse a book that does not fit, unless scores can be wrong', () => {
+        const opening = book.buildBook(picker.classicMastermind, picker.minimax);
+        expect(() => new session.SolverSession(rules, { book: opening })).to.throw(/other rules/);
+        expect(new session.SolverSession(rules, { book: opening, tolerance: 1 }).book).to.be.undefined;
+
+        // nor its opener.
+        const other = book.buildBook(rules, picker.minimax, { opener: "BGOR" });
+        expect(new session.SolverSession(rules, { book: other }).opener).to.equal("BGOR");
+        expect(new session.SolverSession(rules, { book: other, tolerance: 1 }).opener).to.equal("PYGO");
+    });
+});
@@ -0,0 +1,122 @@
+"use strict";
+var __assign = (this && this.__assign) || Object.assign || function(t) {
+    for (var s, i = 1, n = arguments.length; i < n; i++) {
+        s = arguments[i];
+        for (var p in s) if (Object.prototype.hasOwnProperty.call(s, p))
+            t[p] = s[p];
+    }
+    return t;
+};
+var __awaiter = (this && this.__awaiter) || function (thisArg, _arguments, P, generator) {
+    return new (P || (P = Promise))(function (resolve, reject) {
+        function fulfilled(value) { try { step(generator.next(value)); } catch (e) { reject(e); } }
+        function rejected(value) { try { step(generator["throw"](value)); } catch (e) { reject(e); } }
+        function step(result) { result.done ? resolve(result.value) : new P(function (resolve) { resolve(result.value); }).then(fulfilled, rejected); }
+        step((generator = generator.apply(thisArg, _arguments || [])).next());
+    });
+};
+var __generator = (this && this.__generator) || function (thisArg, body) {
+    var _ = { label: 0, sent: function() { if (t[0] & 1) throw t[1]; return t[1]; }, trys: [], ops: [] }, f, y, t, g;
+    return g = { next: verb(0), "throw": verb(1), "return": verb(2) }, typeof Symbol === "function" && (g[Symbol.iterator] = function() { return this; }), g;
+    function verb(n) { return function (v) { return step([n, v]); }; }
+    function step(op) {
+        if (f) throw new TypeError("Generator is already executing.");
+        while (_) try {
+            if (f = 1, y && (t = y[op[0] & 2 ? "return" : op[0] ? "throw" : "next"]) && !(t = t.call(y, op[1])).done) return t;
+            if (y = 0, t) op = [0, t.value];
+            switch (op[0]) {
+                case 0: case 1: t = op; break;
+                case 4: _.label++; return { value: op[1], done: false };
+                case 5: _.label++; y = op[1]; op = [0]; continue;
+                case 7: op = _.ops.pop(); _.trys.pop(); continue;
+                default:
+                    if (!(t = _.trys, t = t.length > 0 && t[t.length - 1]) && (op[0] === 6 || op[0] === 2)) { _ = 0; continue; }
+                    if (op[0] === 3 && (!t || (op[1] > t[0] && op[1] < t[3]))) { _.label = op[1]; break; }
+                    if (op[0] === 6 && _.label < t[1]) { _.label = t[1]; t = op; break; }
+                    if (t && _.label < t[2]) { _.label = t[2]; _.ops.push(op); break; }
+                    if (t[2]) _.ops.pop();
+                    _.trys.pop(); continue;
+            }
+            op = body.call(thisArg, _);
+        } catch (e) { op = [6, e]; y = 0; } finally { f = t = 0; }
+        if (op[0] & 5) throw op[1]; return { value: op[0] ? op[1] : void 0, done: true };
+    }
+};
+var _this = this;
+Object.defineProperty(exports, "__esModule", { value: true });
+var chai = require("chai");
+var expect = chai.expect;
+var bench = require("../dist/bench");
+var codemaker = require("../dist/codemaker");
+var picker = require("../dist/lib");
+describe('codemaker', function () {
+    var rules = picker.lockChallenge;
+    it('should score guesses against its secret', function () {
+        var maker = new codemaker.Codemaker(rules, "bgor");
+        expect(maker.score("PYGO")).to.deep.equal({ white: 2, black: 0 });
+        expect(maker.score("bgyp")).to.deep.equal({ white: 0, black: 2 });
+        expect(maker.solved()).to.equal(false);
+        expect(maker.score("BGOR")).to.deep.equal({ white: 0, black: 4 });
+        expect(maker.solved()).to.equal(true);
+        expect(maker.guesses()).to.equal(3);
+        expect(maker.reveal()).to.equal("BGOR");
+    });
+    it('should reject guesses that are not valid codes', function () {
+        var maker = new codemaker.Codemaker(rules);
+        expect(function () { return maker.score("BBGO"); }).to.throw(codemaker.InvalidGuessError);
+        expect(function () { return maker.score("BGO"); }).to.throw(codemaker.InvalidGuessError);
+        expect(function () { return maker.score("BGOX"); }).to.throw(codemaker.InvalidGuessError);
+        expect(maker.guesses()).to.equal(0);
+        expect(function () { return new codemaker.Codemaker(rules, "BBBB"); }).to.throw(codemaker.InvalidGuessError);
+        expect(picker.isValidCode(picker.classicMastermind, "BBBB")).to.equal(true);
+    });
+    it('should point out guesses that contradict earlier scores', function () {
+        var maker = new codemaker.Codemaker(rules, "BGOR");
+        maker.score("PYGO");
+        maker.score("BGYP");
+        expect(maker.contradictions("BGOR")).to.be.empty;
+        expect(maker.contradictions("GOBR").map(function (t) { return t.index; })).to.deep.equal([1]);
+    });
+    it('should avoid committing to a secret when adversarial', function () {
+        var maker = new codemaker.Codemaker(rules, 'adversarial');
+        var scores = ["PYGO", "BGOR", "RYBO"].map(function (guess) { return maker.score(guess); });
+        // every score must be consistent with whatever it finally reveals.
+        var secret = maker.reveal();
+        maker.history().forEach(function (turn, i) {
+            expect(picker.calculateScore(rules, secret, turn.guess)).to.deep.equal(scores[i]);
+        });
+        // the first score keeps the largest group of codes alive.
+        var sizes = picker.partition(rules, "PYGO", picker.getAllCombinations(rules));
+        var first = picker.getAllPossibleScores(rules).findIndex(function (s) { return picker.scoreEquals(s, scores[0]); });
+        expect(sizes[first]).to.equal(Math.max.apply(Math, sizes));
+    });
+    it('should force the worst case of a strategy when deepest', function () { return __awaiter(_this, void 0, void 0, function () {
+        var small, result, worst, largest, _a;
+        return __generator(this, function (_b) {
+            switch (_b.label) {
+                case 0:
+                    small = __assign({}, rules, { length: 3, opener: undefined });
+                    return [4 /*yield*/, bench.runBenchmark(small, {})];
+                case 1:
+                    result = _b.sent();
+                    return [4 /*yield*/, codemaker.forceWorstCase(small, 'deepest')];
+                case 2:
+                    worst = _b.sent();
+                    expect(worst.attempts).to.equal(result.worst);
+                    expect(result.hardest).to.contain(worst.answer);
+                    worst.turns.forEach(function (turn) {
+                        expect(picker.calculateScore(small, worst.answer, turn.guess)).to.deep.equal(turn.score);
+                    });
+                    return [4 /*yield*/, codemaker.forceWorstCase(small, 'largest')];
+                case 3:
+                    largest = _b.sent();
+                    expect(largest.attempts).to.be.at.most(worst.attempts);
+                    _a = expect;
+                    return [4 /*yield*/, codemaker.forceWorstCase(rules, 'deepest')];
+                case 4:
+                    _a.apply(void 0, [(_b.sent()).attempts]).to.equal(6);
+                    return [2 /*return*/];
+            }
+        });
+    }); });
+});
@@ -0,0 +1,71 @@
+import * as chai from 'chai';
+var expect = chai.expect;
+
+import * as bench from '../dist/bench';
+import * as codemaker from '../dist/codemaker';
+import * as picker from '../dist/lib';
+
+describe('codemaker', () => {
+    const rules = picker.lockChallenge;
+
+    it('should score guesses against its secret', () => {
+        const maker = new codemaker.Codemaker(rules, "bgor");
+        expect(maker.score("PYGO")).to.deep.equal({ white: 2, black: 0 });
+        expect(maker.score("bgyp")).to.deep.equal({ white: 0, black: 2 });
+        expect(maker.solved()).to.equal(false);
+        expect(maker.score("BGOR")).to.deep.equal({ white: 0, black: 4 });
+        expect(maker.solved()).to.equal(true);
+        expect(maker.guesses()).to.equal(3);
+        expect(maker.reveal()).to.equal("BGOR");
+    });
+
+    it('should reject guesses that are not valid codes', () => {
+        const maker = new codemaker.Codemaker(rules);
+        expect(() => maker.score("BBGO")).to.throw(codemaker.InvalidGuessError);
+        expect(() => maker.score("BGO")).to.throw(codemaker.InvalidGuessError);
+        expect(() => maker.score("BGOX")).to.throw(codemaker.InvalidGuessError);
+        expect(maker.guesses()).to.equal(0);
+        expect(() => new codemaker.Codemaker(rules, "BBBB")).to.throw(codemaker.InvalidGuessError);
+        expect(picker.isValidCode(picker.classicMastermind, "BBBB")).to.equal(true);
+    });
+
+    it('should point out guesses that contradict earlier scores', () => {
+        const maker = new codemaker.Codemaker(rules, "BGOR");
+        maker.score("PYGO");
+        maker.score("BGYP");
+        expect(maker.contradictions("BGOR")).to.be.empty;
+        expect(maker.contradictions("GOBR").map(t => t.index)).to.deep.equal([1]);
+    });
+
+    it('should avoid committing to a secret when adversarial', () => {
+        const maker = new codemaker.Codemaker(rules, 'adversarial');
+        const scores = ["PYGO", "BGOR", "RYBO"].map(guess => maker.score(guess));
+
+        // every score must be consistent with whatever it finally reveals.
+        const secret = maker.reveal();
+        maker.history().forEach((turn, i) => {
+            expect(picker.calculateScore(rules, secret, turn.guess)).to.deep.equal(scores[i]);
+        });
+
+        // the first score keeps the largest group of codes alive.
+        const sizes = picker.partition(rules, "PYGO", picker.getAllCombinations(rules));
+        const first = picker.getAllPossibleScores(rules).findIndex(s => picker.scoreEquals(s, scores[0]));
+        expect(sizes[first]).to.equal(Math.max(...sizes));
+    });
+
+    it('should force the worst case of a strategy when deepest', async () => {
+        const small: picker.RuleSet = { ...rules, length: 3, opener: undefined };
+        const result = await bench.runBenchmark(small, {});
+        const worst = await codemaker.forceWorstCase(small, 'deepest');
+        expect(worst.attempts).to.equal(result.worst);
+        expect(result.hardest).to.contain(worst.answer);
+        worst.turns.forEach(turn => {
+            expect(picker.calculateScore(small, worst.answer, turn.guess)).to.deep.equal(turn.score);
+        });
+
+        // keeping the most codes alive never does better than the deepest adversary.
+        const largest = await codemaker.forceWorstCase(small, 'largest');
+        expect(largest.attempts).to.be.at.most(worst.attempts);
+        expect((await codemaker.forceWorstCase(rules, 'deepest')).attempts).to.equal(6);
+    });
+});
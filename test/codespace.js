@@ -0,0 +1,77 @@
+"use strict";
+var __assign = (this && this.__assign) || Object.assign || function(t) {
+    for (var s, i = 1, n = arguments.length; i < n; i++) {
+        s = arguments[i];
+        for (var p in s) if (Object.prototype.hasOwnProperty.call(s, p))
+            t[p] = s[p];
+    }
+    return t;
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+var chai = require("chai");
+var expect = chai.expect;
+var _ = require("lodash");
+var picker = require("../dist/lib");
+var codespace = require("../dist/codespace");
+describe('code space', function () {
+    /** Scores two codes the slow way, by crossing off pegs. */
+    function slowScore(guess, code) {
+        var g = guess.split(''), c = code.split('');
+        var black = 0;
+        for (var i = g.length - 1; i >= 0; i--) {
+            if (g[i] == c[i]) {
+                black++;
+                g.splice(i, 1);
+                c.splice(i, 1);
+            }
+        }
+        var white = 0;
+        g.forEach(function (peg) {
+            var i = c.indexOf(peg);
+            if (i != -1) {
+                white++;
+                c.splice(i, 1);
+            }
+        });
+        return { white: white, black: black };
+    }
+    it('should score every pair the same as the strings do', function () {
+        var _loop_1 = function (rules) {
+            var space = picker.getCodeSpace(rules);
+            expect(space.size).to.equal(picker.getAllCombinations(rules).length);
+            var sample = space.codes.filter(function (_code, i) { return i % 7 == 0; });
+            sample.forEach(function (a) { return sample.forEach(function (b) {
+                expect(space.score(space.indexOf(a), space.indexOf(b))).to.deep.equal(slowScore(a, b));
+            }); });
+        };
+        for (var _i = 0, _a = [picker.lockChallenge, picker.classicMastermind]; _i < _a.length; _i++) {
+            var rules = _a[_i];
+            _loop_1(rules);
+        }
+    });
+    it('should score on the fly when the rules are too large for a table', function () {
+        var rules = __assign({}, picker.superMastermind, { opener: undefined });
+        var space = picker.getCodeSpace(rules);
+        expect(space.size).to.be.above(codespace.tableLimit);
+        expect(picker.calculateScore(rules, "BBGGO", "GBOMB")).to.deep.equal({ white: 3, black: 1 });
+        expect(picker.calculateScore(rules, "CMYPR", "RRRRR")).to.deep.equal({ white: 0, black: 1 });
+    });
+    it('should share one code space between copies of the same rules', function () {
+        // the way the server parses rules out of each request that asks for them.
+        var custom = function () { return ({ colors: ['A', 'B', 'C', 'D', 'E'], length: 3, duplicates: true, blanks: false }); };
+        var space = picker.getCodeSpace(custom());
+        expect(picker.getCodeSpace(custom())).to.equal(space);
+        expect(picker.getCodeSpace(__assign({}, custom(), { opener: "ABC" }))).to.equal(space);
+        expect(picker.getCodeSpace(__assign({}, custom(), { feedback: 'bulls' }))).to.not.equal(space);
+        expect(picker.getCodeSpace(__assign({}, picker.lockChallenge, { opener: undefined }))).to.equal(picker.getCodeSpace(picker.lockChallenge));
+    });
+    it('should partition the remaining codes by score', function () {
+        var rules = picker.lockChallenge;
+        var remaining = picker.parePossibilities(rules, picker.getAllCombinations(rules), "PYGO", { white: 2, black: 0 });
+        var sizes = picker.partition(rules, "BGOR", remaining);
+        expect(_.sum(sizes)).to.equal(remaining.length);
+        picker.getAllPossibleScores(rules).forEach(function (score, i) {
+            expect(sizes[i]).to.equal(remaining.filter(function (code) { return _.isEqual(slowScore("BGOR", code), score); }).length);
+        });
+    });
+});
@@ -0,0 +1,69 @@
+import * as chai from 'chai';
+var expect = chai.expect;
+
+import * as _ from 'lodash';
+import * as picker from '../dist/lib';
+import * as codespace from '../dist/codespace';
+
+describe('code space', () => {
+    /** Scores two codes the slow way, by crossing off pegs. */
+    function slowScore(guess: string, code: string) {
+        const g = guess.split(''), c = code.split('');
+        let black = 0;
+        for (let i = g.length - 1; i >= 0; i--) {
+            if (g[i] == c[i]) {
+                black++;
+                g.splice(i, 1);
+                c.splice(i, 1);
+            }
+        }
+        let white = 0;
+        g.forEach(peg => {
+            const i = c.indexOf(peg);
+            if (i != -1) {
+                white++;
+                c.splice(i, 1);
+            }
+        });
+        return { white, black };
+    }
+
+    it('should score every pair the same as the strings do', () => {
+        for (let rules of [picker.lockChallenge, picker.classicMastermind]) {
+            const space = picker.getCodeSpace(rules);
+            expect(space.size).to.equal(picker.getAllCombinations(rules).length);
+            const sample = space.codes.filter((_code, i) => i % 7 == 0);
+            sample.forEach(a => sample.forEach(b => {
+                expect(space.score(space.indexOf(a), space.indexOf(b))).to.deep.equal(slowScore(a, b));
+            }));
+        }
+    });
+
+    it('should score on the fly when the rules are too large for a table', () => {
+        const rules = { ...picker.superMastermind, opener: undefined };
+        const space = picker.getCodeSpace(rules);
+        expect(space.size).to.be.above(codespace.tableLimit);
+        expect(picker.calculateScore(rules, "BBGGO", "GBOMB")).to.deep.equal({ white: 3, black: 1 });
+        expect(picker.calculateScore(rules, "CMYPR", "RRRRR")).to.deep.equal({ white: 0, black: 1 });
+    });
+
+    it('should share one code space between copies of the same rules', () => {
+        // the way the server parses rules out of each request that asks for them.
+        const custom = () => ({ colors: ['A', 'B', 'C', 'D', 'E'], length: 3, duplicates: true, blanks: false });
+        const space = picker.getCodeSpace(custom());
+        expect(picker.getCodeSpace(custom())).to.equal(space);
+        expect(picker.getCodeSpace({ ...custom(), opener: "ABC" })).to.equal(space);
+        expect(picker.getCodeSpace({ ...custom(), feedback: 'bulls' })).to.not.equal(space);
+        expect(picker.getCodeSpace({ ...picker.lockChallenge, opener: undefined })).to.equal(picker.getCodeSpace(picker.lockChallenge));
+    });
+
+    it('should partition the remaining codes by score', () => {
+        const rules = picker.lockChallenge;
+        const remaining = picker.parePossibilities(rules, picker.getAllCombinations(rules), "PYGO", { white: 2, black: 0 });
+        const sizes = picker.partition(rules, "BGOR", remaining);
+        expect(_.sum(sizes)).to.equal(remaining.length);
+        picker.getAllPossibleScores(rules).forEach((score, i) => {
+            expect(sizes[i]).to.equal(remaining.filter(code => _.isEqual(slowScore("BGOR", code), score)).length);
+        });
+    });
+});
@@ -0,0 +1,56 @@
+"use strict";
+var __assign = (this && this.__assign) || Object.assign || function(t) {
+    for (var s, i = 1, n = arguments.length; i < n; i++) {
+        s = arguments[i];
+        for (var p in s) if (Object.prototype.hasOwnProperty.call(s, p))
+            t[p] = s[p];
+    }
+    return t;
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+var chai = require("chai");
+var expect = chai.expect;
+var picker = require("../dist/lib");
+var session = require("../dist/session");
+describe('feedback models', function () {
+    var positional = picker.positionalMastermind;
+    var bulls = picker.bullsAndCows;
+    /** Plays a session until it's solved, returning the number of attempts. */
+    function play(rules, secret) {
+        var game = new session.SolverSession(rules);
+        var answer;
+        while (!answer) {
+            var guess = game.nextGuess();
+            answer = game.submit(picker.calculateScore(rules, guess, secret), guess);
+        }
+        expect(answer.answer).to.equal(secret);
+        return answer.attempts;
+    }
+    it('should mark every slot in the positional model', function () {
+        expect(picker.calculateScore(positional, "BBGO", "OBRB")).to.deep.equal({ white: 2, black: 1, marks: "~+.~" });
+        expect(picker.calculateScore(positional, "BBBB", "OBRY")).to.deep.equal({ white: 0, black: 1, marks: ".+.." });
+        expect(picker.calculateScore(positional, "OBRY", "BBBB")).to.deep.equal({ white: 0, black: 1, marks: ".+.." });
+        expect(picker.calculateScore(positional, "BGOR", "RBGY")).to.deep.equal({ white: 3, black: 0, marks: "~~.~" });
+        expect(picker.winningScore(positional).marks).to.equal("++++");
+        expect(picker.getAllPossibleScores(positional).length).to.equal(81);
+        // the same counts with different marks are different scores.
+        expect(picker.scoreEquals(picker.calculateScore(positional, "BGOR", "GYYY"), picker.calculateScore(positional, "BGOR", "OYYY"))).to.equal(false);
+    });
+    it('should parse and print each model its own way', function () {
+        expect(picker.tryParseScore("1b2c", bulls)).to.deep.equal({ white: 2, black: 1 });
+        expect(picker.formatScore(bulls, { white: 2, black: 1 })).to.equal("1B2C");
+        expect(picker.tryParseScore("1w", bulls).kind).to.equal('malformed');
+        expect(picker.tryParseScore("3b1c", bulls).kind).to.equal('range');
+        expect(picker.tryParseScore(" ~+.~ ", positional)).to.deep.equal({ white: 2, black: 1, marks: "~+.~" });
+        expect(picker.tryParseScore("++", positional).kind).to.equal('malformed');
+        expect(picker.tryParseScore("", positional).kind).to.equal('empty');
+        expect(picker.formatScore(positional, { white: 2, black: 1, marks: "~+.~" })).to.equal("~+.~");
+        expect(picker.formatScore(picker.lockChallenge, { white: 0, black: 0 })).to.equal("0W0B");
+        expect(function () { return picker.validateRules(__assign({}, bulls, { feedback: "nope" })); }).to.throw(/feedback/);
+    });
+    it('should solve games under every model', function () {
+        expect(play(bulls, "9580")).to.be.at.most(8);
+        expect(play(positional, "BBGO")).to.be.at.most(6);
+        expect(play(positional, "YYYY")).to.be.at.most(6);
+    });
+});
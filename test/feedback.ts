@@ -0,0 +1,54 @@
+import * as chai from 'chai';
+var expect = chai.expect;
+
+import * as picker from '../dist/lib';
+import * as session from '../dist/session';
+
+describe('feedback models', () => {
+    const positional = picker.positionalMastermind;
+    const bulls = picker.bullsAndCows;
+
+    /** Plays a session until it's solved, returning the number of attempts. */
+    function play(rules: picker.RuleSet, secret: string) {
+        const game = new session.SolverSession(rules);
+        let answer: picker.Answer | undefined;
+        while (!answer) {
+            const guess = game.nextGuess();
+            answer = game.submit(picker.calculateScore(rules, guess, secret), guess);
+        }
+        expect(answer.answer).to.equal(secret);
+        return answer.attempts;
+    }
+
+    it('should mark every slot in the positional model', () => {
+        expect(picker.calculateScore(positional, "BBGO", "OBRB")).to.deep.equal({ white: 2, black: 1, marks: "~+.~" });
+        expect(picker.calculateScore(positional, "BBBB", "OBRY")).to.deep.equal({ white: 0, black: 1, marks: ".+.." });
+        expect(picker.calculateScore(positional, "OBRY", "BBBB")).to.deep.equal({ white: 0, black: 1, marks: ".+.." });
+        expect(picker.calculateScore(positional, "BGOR", "RBGY")).to.deep.equal({ white: 3, black: 0, marks: "~~.~" });
+        expect(picker.winningScore(positional).marks).to.equal("++++");
+        expect(picker.getAllPossibleScores(positional).length).to.equal(81);
+
+        // the same counts with different marks are different scores.
+        expect(picker.scoreEquals(picker.calculateScore(positional, "BGOR", "GYYY"), picker.calculateScore(positional, "BGOR", "OYYY"))).to.equal(false);
+    });
+
+    it('should parse and print each model its own way', () => {
+        expect(picker.tryParseScore("1b2c", bulls)).to.deep.equal({ white: 2, black: 1 });
+        expect(picker.formatScore(bulls, { white: 2, black: 1 })).to.equal("1B2C");
+        expect((picker.tryParseScore("1w", bulls) as picker.ScoreError).kind).to.equal('malformed');
+        expect((picker.tryParseScore("3b1c", bulls) as picker.ScoreError).kind).to.equal('range');
+
+        expect(picker.tryParseScore(" ~+.~ ", positional)).to.deep.equal({ white: 2, black: 1, marks: "~+.~" });
+        expect((picker.tryParseScore("++", positional) as picker.ScoreError).kind).to.equal('malformed');
+        expect((picker.tryParseScore("", positional) as picker.ScoreError).kind).to.equal('empty');
+        expect(picker.formatScore(positional, { white: 2, black: 1, marks: "~+.~" })).to.equal("~+.~");
+        expect(picker.formatScore(picker.lockChallenge, { white: 0, black: 0 })).to.equal("0W0B");
+        expect(() => picker.validateRules({ ...bulls, feedback: "nope" })).to.throw(/feedback/);
+    });
+
+    it('should solve games under every model', () => {
+        expect(play(bulls, "9580")).to.be.at.most(8);
+        expect(play(positional, "BBGO")).to.be.at.most(6);
+        expect(play(positional, "YYYY")).to.be.at.most(6);
+    });
+});
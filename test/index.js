@@ -1,4 +1,12 @@
 "use strict";
+var __assign = (this && this.__assign) || Object.assign || function(t) {
+    for (var s, i = 1, n = arguments.length; i < n; i++) {
+        s = arguments[i];
+        for (var p in s) if (Object.prototype.hasOwnProperty.call(s, p))
+            t[p] = s[p];
+    }
+    return t;
+};
 Object.defineProperty(exports, "__esModule", { value: true });
 var chai = require("chai");
 var expect = chai.expect;
@@ -18,17 +26,18 @@ describe('integration tests', function () {
         expect(picker.scoreEquals(score3, score5)).to.equal(false);
     });
     it('should compute scores properly', function () {
-        expect(picker.scoreEquals(picker.calculateScore("BBGG", "GOYP"), { white: 1, black: 0 })).to.equal(true);
-        expect(picker.scoreEquals(picker.calculateScore("BBGG", "GGYP"), { white: 2, black: 0 })).to.equal(true);
-        expect(picker.scoreEquals(picker.calculateScore("BBGG", "BBGG"), { white: 0, black: 4 })).to.equal(true);
-        expect(picker.scoreEquals(picker.calculateScore("GOYP", "BBGG"), { white: 1, black: 0 })).to.equal(true);
-        expect(picker.scoreEquals(picker.calculateScore("GOYP", "GBYG"), { white: 0, black: 2 })).to.equal(true);
-        expect(picker.scoreEquals(picker.calculateScore("BPBP", "YGYG"), { white: 0, black: 0 })).to.equal(true);
-        expect(picker.scoreEquals(picker.calculateScore("BPYG", "GPYB"), { white: 2, black: 2 })).to.equal(true);
-        expect(picker.scoreEquals(picker.calculateScore("OPYG", "GPYB"), { white: 1, black: 2 })).to.equal(true);
+        expect(picker.scoreEquals(picker.calculateScore(picker.classicMastermind, "BBGG", "GOYP"), { white: 1, black: 0 })).to.equal(true);
+        expect(picker.scoreEquals(picker.calculateScore(picker.classicMastermind, "BBGG", "GGYP"), { white: 2, black: 0 })).to.equal(true);
+        expect(picker.scoreEquals(picker.calculateScore(picker.classicMastermind, "BBGG", "BBGG"), { white: 0, black: 4 })).to.equal(true);
+        expect(picker.scoreEquals(picker.calculateScore(picker.classicMastermind, "GOYP", "BBGG"), { white: 1, black: 0 })).to.equal(true);
+        expect(picker.scoreEquals(picker.calculateScore(picker.classicMastermind, "GOYP", "GBYG"), { white: 0, black: 2 })).to.equal(true);
+        expect(picker.scoreEquals(picker.calculateScore(picker.classicMastermind, "BPBP", "YGYG"), { white: 0, black: 0 })).to.equal(true);
+        expect(picker.scoreEquals(picker.calculateScore(picker.classicMastermind, "BPYG", "GPYB"), { white: 2, black: 2 })).to.equal(true);
+        expect(picker.scoreEquals(picker.calculateScore(picker.classicMastermind, "OPYG", "GPYB"), { white: 1, black: 2 })).to.equal(true);
     });
     it('should compute the inital set so that there are no duplicate letters', function () {
-        var set = picker.initializeSet();
+        var set = picker.getAllCombinations(picker.lockChallenge);
+        expect(set.length).to.equal(360);
         set.forEach(function (x) {
             var array = _.range(x.length).map(function (i) { return x[i]; });
             array.forEach(function (l) {
@@ -36,4 +45,50 @@ describe('integration tests', function () {
             });
         });
     });
+    it('should compute the initial set for rule sets that allow duplicates and blanks', function () {
+        expect(picker.getAllCombinations(picker.classicMastermind).length).to.equal(1296);
+        expect(picker.getAllCombinations(picker.superMastermind).length).to.equal(32768);
+        var blanks = __assign({}, picker.lockChallenge, { blanks: true });
+        var set = picker.getAllCombinations(blanks);
+        expect(set).to.contain("--BG");
+        expect(set).to.not.contain("BBGO");
+    });
+    it('should cross out repeated colors when scoring', function () {
+        expect(picker.scoreEquals(picker.calculateScore(picker.classicMastermind, "BBOO", "OOBG"), { white: 3, black: 0 })).to.equal(true);
+        expect(picker.scoreEquals(picker.calculateScore(picker.classicMastermind, "BBBG", "GBOO"), { white: 1, black: 1 })).to.equal(true);
+    });
+    it('should reject rules that cannot be satisfied', function () {
+        var twoColors = __assign({}, picker.lockChallenge, { colors: ['B', 'G'], length: 3 });
+        expect(function () { return picker.getAllCombinations(twoColors); }).to.throw();
+        expect(picker.getAllCombinations(__assign({}, twoColors, { duplicates: true })).length).to.equal(8);
+        expect(picker.getAllCombinations(__assign({}, twoColors, { blanks: true }))).to.contain("-G-");
+        expect(function () { return picker.getAllCombinations(__assign({}, twoColors, { length: 1.5, duplicates: true })); }).to.throw();
+        expect(function () { return picker.getAllCombinations(__assign({}, twoColors, { length: 1.5 })); }).to.throw();
+    });
+    it('should parse valid scores strictly', function () {
+        var rules = picker.lockChallenge;
+        expect(picker.tryParseScore("1w2b", rules)).to.deep.equal({ white: 1, black: 2 });
+        expect(picker.tryParseScore(" 2B1W ", rules)).to.deep.equal({ white: 1, black: 2 });
+        expect(picker.tryParseScore("4b", rules)).to.deep.equal({ white: 0, black: 4 });
+        expect(picker.tryParseScore("0w0b", rules)).to.deep.equal({ white: 0, black: 0 });
+    });
+    it('should reject invalid scores with the reason', function () {
+        var rules = picker.lockChallenge;
+        var kind = function (input, guess, remaining) {
+            var result = picker.tryParseScore(input, rules, guess, remaining);
+            return result instanceof picker.ScoreError ? result.kind : undefined;
+        };
+        expect(kind("")).to.equal('empty');
+        expect(kind("   ")).to.equal('empty');
+        expect(kind("foo")).to.equal('malformed');
+        expect(kind("2x")).to.equal('malformed');
+        expect(kind("2w2w")).to.equal('duplicate');
+        expect(kind("5b")).to.equal('range');
+        expect(kind("3b1w")).to.equal('range');
+        expect(kind("3w2b")).to.equal('range');
+        var all = picker.getAllCombinations(rules);
+        expect(kind("0w0b", "PYGO", all)).to.equal('impossible');
+        expect(kind("1w", "PYGO", all)).to.equal('impossible');
+        expect(kind("2w", "PYGO", all)).to.equal(undefined);
+    });
 });
@@ -22,41 +22,42 @@ describe('integration tests', () => {
 
     it('should compute scores properly', () => {
         expect(picker.scoreEquals(
-            picker.calculateScore("BBGG", "GOYP"),
+            picker.calculateScore(picker.classicMastermind, "BBGG", "GOYP"),
             { white: 1, black: 0 }
         )).to.equal(true);
         expect(picker.scoreEquals(
-            picker.calculateScore("BBGG", "GGYP"),
+            picker.calculateScore(picker.classicMastermind, "BBGG", "GGYP"),
             { white: 2, black: 0 }
         )).to.equal(true);
         expect(picker.scoreEquals(
-            picker.calculateScore("BBGG", "BBGG"),
+            picker.calculateScore(picker.classicMastermind, "BBGG", "BBGG"),
             { white: 0, black: 4 }
         )).to.equal(true);
         expect(picker.scoreEquals(
-            picker.calculateScore("GOYP", "BBGG"),
+            picker.calculateScore(picker.classicMastermind, "GOYP", "BBGG"),
             { white: 1, black: 0 }
         )).to.equal(true);
         expect(picker.scoreEquals(
-            picker.calculateScore("GOYP", "GBYG"),
+            picker.calculateScore(picker.classicMastermind, "GOYP", "GBYG"),
             { white: 0, black: 2 }
         )).to.equal(true);
         expect(picker.scoreEquals(
-            picker.calculateScore("BPBP", "YGYG"),
+            picker.calculateScore(picker.classicMastermind, "BPBP", "YGYG"),
             { white: 0, black: 0 }
         )).to.equal(true);
         expect(picker.scoreEquals(
-            picker.calculateScore("BPYG", "GPYB"),
+            picker.calculateScore(picker.classicMastermind, "BPYG", "GPYB"),
             { white: 2, black: 2 }
         )).to.equal(true);
         expect(picker.scoreEquals(
-            picker.calculateScore("OPYG", "GPYB"),
+            picker.calculateScore(picker.classicMastermind, "OPYG", "GPYB"),
             { white: 1, black: 2 }
         )).to.equal(true);
     });
 
     it('should compute the inital set so that there are no duplicate letters', () => {
-        const set = picker.initializeSet();
+        const set = picker.getAllCombinations(picker.lockChallenge);
+        expect(set.length).to.equal(360);
         set.forEach(x => {
             const array = _.range(x.length).map(i => x[i]);
             array.forEach(l => {
@@ -64,4 +65,63 @@ describe('integration tests', () => {
             });
         });
     });
+
+    it('should compute the initial set for rule sets that allow duplicates and blanks', () => {
+        expect(picker.getAllCombinations(picker.classicMastermind).length).to.equal(1296);
+        expect(picker.getAllCombinations(picker.superMastermind).length).to.equal(32768);
+
+        const blanks = { ...picker.lockChallenge, blanks: true };
+        const set = picker.getAllCombinations(blanks);
+        expect(set).to.contain("--BG");
+        expect(set).to.not.contain("BBGO");
+    });
+
+    it('should cross out repeated colors when scoring', () => {
+        expect(picker.scoreEquals(
+            picker.calculateScore(picker.classicMastermind, "BBOO", "OOBG"),
+            { white: 3, black: 0 }
+        )).to.equal(true);
+        expect(picker.scoreEquals(
+            picker.calculateScore(picker.classicMastermind, "BBBG", "GBOO"),
+            { white: 1, black: 1 }
+        )).to.equal(true);
+    });
+
+    it('should reject rules that cannot be satisfied', () => {
+        const twoColors = { ...picker.lockChallenge, colors: ['B', 'G'], length: 3 };
+        expect(() => picker.getAllCombinations(twoColors)).to.throw();
+        expect(picker.getAllCombinations({ ...twoColors, duplicates: true }).length).to.equal(8);
+        expect(picker.getAllCombinations({ ...twoColors, blanks: true })).to.contain("-G-");
+        expect(() => picker.getAllCombinations({ ...twoColors, length: 1.5, duplicates: true })).to.throw();
+        expect(() => picker.getAllCombinations({ ...twoColors, length: 1.5 })).to.throw();
+    });
+
+    it('should parse valid scores strictly', () => {
+        const rules = picker.lockChallenge;
+        expect(picker.tryParseScore("1w2b", rules)).to.deep.equal({ white: 1, black: 2 });
+        expect(picker.tryParseScore(" 2B1W ", rules)).to.deep.equal({ white: 1, black: 2 });
+        expect(picker.tryParseScore("4b", rules)).to.deep.equal({ white: 0, black: 4 });
+        expect(picker.tryParseScore("0w0b", rules)).to.deep.equal({ white: 0, black: 0 });
+    });
+
+    it('should reject invalid scores with the reason', () => {
+        const rules = picker.lockChallenge;
+        const kind = (input: string, guess?: string, remaining?: string[]) => {
+            const result = picker.tryParseScore(input, rules, guess, remaining);
+            return result instanceof picker.ScoreError ? result.kind : undefined;
+        };
+        expect(kind("")).to.equal('empty');
+        expect(kind("   ")).to.equal('empty');
+        expect(kind("foo")).to.equal('malformed');
+        expect(kind("2x")).to.equal('malformed');
+        expect(kind("2w2w")).to.equal('duplicate');
+        expect(kind("5b")).to.equal('range');
+        expect(kind("3b1w")).to.equal('range');
+        expect(kind("3w2b")).to.equal('range');
+
+        const all = picker.getAllCombinations(rules);
+        expect(kind("0w0b", "PYGO", all)).to.equal('impossible');
+        expect(kind("1w", "PYGO", all)).to.equal('impossible');
+        expect(kind("2w", "PYGO", all)).to.equal(undefined);
+    });
 });
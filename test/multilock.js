@@ -0,0 +1,137 @@
+"use strict";
+var __awaiter = (this && this.__awaiter) || function (thisArg, _arguments, P, generator) {
+    return new (P || (P = Promise))(function (resolve, reject) {
+        function fulfilled(value) { try { step(generator.next(value)); } catch (e) { reject(e); } }
+        function rejected(value) { try { step(generator["throw"](value)); } catch (e) { reject(e); } }
+        function step(result) { result.done ? resolve(result.value) : new P(function (resolve) { resolve(result.value); }).then(fulfilled, rejected); }
+        step((generator = generator.apply(thisArg, _arguments || [])).next());
+    });
+};
+var __generator = (this && this.__generator) || function (thisArg, body) {
+    var _ = { label: 0, sent: function() { if (t[0] & 1) throw t[1]; return t[1]; }, trys: [], ops: [] }, f, y, t, g;
+    return g = { next: verb(0), "throw": verb(1), "return": verb(2) }, typeof Symbol === "function" && (g[Symbol.iterator] = function() { return this; }), g;
+    function verb(n) { return function (v) { return step([n, v]); }; }
+    function step(op) {
+        if (f) throw new TypeError("Generator is already executing.");
+        while (_) try {
+            if (f = 1, y && (t = y[op[0] & 2 ? "return" : op[0] ? "throw" : "next"]) && !(t = t.call(y, op[1])).done) return t;
+            if (y = 0, t) op = [0, t.value];
+            switch (op[0]) {
+                case 0: case 1: t = op; break;
+                case 4: _.label++; return { value: op[1], done: false };
+                case 5: _.label++; y = op[1]; op = [0]; continue;
+                case 7: op = _.ops.pop(); _.trys.pop(); continue;
+                default:
+                    if (!(t = _.trys, t = t.length > 0 && t[t.length - 1]) && (op[0] === 6 || op[0] === 2)) { _ = 0; continue; }
+                    if (op[0] === 3 && (!t || (op[1] > t[0] && op[1] < t[3]))) { _.label = op[1]; break; }
+                    if (op[0] === 6 && _.label < t[1]) { _.label = t[1]; t = op; break; }
+                    if (t && _.label < t[2]) { _.label = t[2]; _.ops.push(op); break; }
+                    if (t[2]) _.ops.pop();
+                    _.trys.pop(); continue;
+            }
+            op = body.call(thisArg, _);
+        } catch (e) { op = [6, e]; y = 0; } finally { f = t = 0; }
+        if (op[0] & 5) throw op[1]; return { value: op[0] ? op[1] : void 0, done: true };
+    }
+};
+var _this = this;
+Object.defineProperty(exports, "__esModule", { value: true });
+var chai = require("chai");
+var expect = chai.expect;
+var picker = require("../dist/lib");
+var multilock = require("../dist/multilock");
+var session = require("../dist/session");
+describe('multiple locks', function () {
+    var rules = picker.lockChallenge;
+    /** Scores a guess against each of the secrets. */
+    function scorer(secrets) {
+        return function (guess) { return Promise.resolve(secrets.map(function (secret) { return picker.calculateScore(rules, guess, secret); })); };
+    }
+    it('should solve every lock with shared guesses', function () {
+        var secrets = ["YROP", "BGOR", "PYGO"];
+        var solved = [];
+        return multilock.multiLoop(rules, secrets.length, {
+            guess: scorer(secrets),
+            solved: function (lock) { return solved.push(lock); }
+        }).then(function (answers) {
+            expect(answers.map(function (a) { return a.answer; })).to.deep.equal(secrets);
+            expect(solved.sort()).to.deep.equal([0, 1, 2]);
+            // PYGO is the opener, so it's solved straight away.
+            expect(answers[2].attempts).to.equal(1);
+        });
+    });
+    it('should solve every lock with either objective', function () {
+        var secrets = ["GORY", "ROYG", "BPYO", "GBOR"];
+        var worst = ["total", "worst"].map(function (objective) {
+            var game = new multilock.MultiSession(rules, secrets.length, { objective: objective });
+            var _loop_1 = function () {
+                var guess = game.nextGuess();
+                game.submit(secrets.map(function (secret) { return picker.calculateScore(rules, guess, secret); }), guess);
+            };
+            while (!game.solved()) {
+                _loop_1();
+            }
+            expect(game.answers().map(function (a) { return a.answer; })).to.deep.equal(secrets);
+            return Math.max.apply(Math, game.answers().map(function (a) { return a.attempts; }));
+        });
+        worst.forEach(function (attempts) { return expect(attempts).to.be.at.most(10); });
+    });
+    it('should guess a code as soon as it is known', function () {
+        var secrets = ["GORY", "ROYG", "BPYO"];
+        var game = new multilock.MultiSession(rules, secrets.length);
+        var _loop_2 = function () {
+            var known = game.unsolved().map(function (lock) { return game.remaining()[lock]; }).filter(function (codes) { return codes.length == 1; });
+            var guess = game.nextGuess();
+            if (known.length) {
+                expect(known.map(function (codes) { return codes[0]; })).to.include(guess);
+            }
+            game.submit(secrets.map(function (secret) { return picker.calculateScore(rules, guess, secret); }), guess);
+        };
+        while (!game.solved()) {
+            _loop_2();
+        }
+    });
+    it('should reject a score that contradicts a lock, without recording anything', function () {
+        var game = new multilock.MultiSession(rules, 2);
+        game.submit([{ white: 2, black: 1 }, { white: 4, black: 0 }], "PYGO");
+        expect(function () { return game.submit([{ white: 3, black: 0 }, { white: 0, black: 0 }], "YPOG"); })
+            .to.throw(multilock.LockContradictionError, /Lock 2/);
+        expect(game.guesses()).to.deep.equal(["PYGO"]);
+        expect(game.remaining()[0].length).to.equal(72);
+    });
+    it('should reject with a typed error when the scores go wrong', function () { return __awaiter(_this, void 0, void 0, function () {
+        var _this = this;
+        var failures, fail, contradiction, delegate;
+        return __generator(this, function (_a) {
+            switch (_a.label) {
+                case 0:
+                    failures = [];
+                    fail = function (guess) { return multilock.multiLoop(rules, 2, { guess: guess, solved: function () { }, error: function (e) { return failures.push(e); } })
+                        .then(function () { throw new Error("Expected the loop to reject."); }, function (error) { return error; }); };
+                    return [4 /*yield*/, fail(function (guess) { return __awaiter(_this, void 0, void 0, function () {
+                            return __generator(this, function (_a) {
+                                return [2 /*return*/, guess == "PYGO"
+                                        ? [{ white: 2, black: 1 }, { white: 4, black: 0 }]
+                                        : [{ white: 0, black: 0 }, { white: 0, black: 0 }]];
+                            });
+                        }); })];
+                case 1:
+                    contradiction = _a.sent();
+                    expect(contradiction).to.be.instanceOf(multilock.LockContradictionError);
+                    expect(contradiction.kind).to.equal('contradiction');
+                    return [4 /*yield*/, fail(function () { return Promise.reject(new Error("no scores")); })];
+                case 2:
+                    delegate = _a.sent();
+                    expect(delegate).to.be.instanceOf(session.SolverError);
+                    expect(delegate.kind).to.equal('delegate');
+                    expect(delegate.cause.message).to.equal("no scores");
+                    expect(failures).to.deep.equal([contradiction, delegate]);
+                    return [2 /*return*/];
+            }
+        });
+    }); });
+    it('should want a score for every lock', function () {
+        var game = new multilock.MultiSession(rules, 2);
+        expect(function () { return game.submit([{ white: 0, black: 0 }]); }).to.throw(/each of the 2 locks/);
+    });
+});
@@ -0,0 +1,89 @@
+import * as chai from 'chai';
+var expect = chai.expect;
+
+import * as picker from '../dist/lib';
+import * as multilock from '../dist/multilock';
+import * as session from '../dist/session';
+
+describe('multiple locks', () => {
+    const rules = picker.lockChallenge;
+
+    /** Scores a guess against each of the secrets. */
+    function scorer(secrets: string[]): multilock.MultiGuesser {
+        return guess => Promise.resolve(secrets.map(secret => picker.calculateScore(rules, guess, secret)));
+    }
+
+    it('should solve every lock with shared guesses', () => {
+        const secrets = ["YROP", "BGOR", "PYGO"];
+        const solved: number[] = [];
+        return multilock.multiLoop(rules, secrets.length, {
+            guess: scorer(secrets),
+            solved: lock => solved.push(lock)
+        }).then(answers => {
+            expect(answers.map(a => a.answer)).to.deep.equal(secrets);
+            expect(solved.sort()).to.deep.equal([0, 1, 2]);
+
+            // PYGO is the opener, so it's solved straight away.
+            expect(answers[2].attempts).to.equal(1);
+        });
+    });
+
+    it('should solve every lock with either objective', () => {
+        const secrets = ["GORY", "ROYG", "BPYO", "GBOR"];
+        const worst = (["total", "worst"] as multilock.MultiObjective[]).map(objective => {
+            const game = new multilock.MultiSession(rules, secrets.length, { objective });
+            while (!game.solved()) {
+                const guess = game.nextGuess();
+                game.submit(secrets.map(secret => picker.calculateScore(rules, guess, secret)), guess);
+            }
+            expect(game.answers().map(a => a!.answer)).to.deep.equal(secrets);
+            return Math.max(...game.answers().map(a => a!.attempts));
+        });
+        worst.forEach(attempts => expect(attempts).to.be.at.most(10));
+    });
+
+    it('should guess a code as soon as it is known', () => {
+        const secrets = ["GORY", "ROYG", "BPYO"];
+        const game = new multilock.MultiSession(rules, secrets.length);
+        while (!game.solved()) {
+            const known = game.unsolved().map(lock => game.remaining()[lock]).filter(codes => codes.length == 1);
+            const guess = game.nextGuess();
+            if (known.length) {
+                expect(known.map(codes => codes[0])).to.include(guess);
+            }
+            game.submit(secrets.map(secret => picker.calculateScore(rules, guess, secret)), guess);
+        }
+    });
+
+    it('should reject a score that contradicts a lock, without recording anything', () => {
+        const game = new multilock.MultiSession(rules, 2);
+        game.submit([{ white: 2, black: 1 }, { white: 4, black: 0 }], "PYGO");
+        expect(() => game.submit([{ white: 3, black: 0 }, { white: 0, black: 0 }], "YPOG"))
+            .to.throw(multilock.LockContradictionError, /Lock 2/);
+        expect(game.guesses()).to.deep.equal(["PYGO"]);
+        expect(game.remaining()[0].length).to.equal(72);
+    });
+
+    it('should reject with a typed error when the scores go wrong', async () => {
+        const failures: any[] = [];
+        const fail = (guess: multilock.MultiGuesser) => multilock.multiLoop(rules, 2, { guess, solved: () => {}, error: e => failures.push(e) })
+            .then(() => { throw new Error("Expected the loop to reject."); }, error => error);
+
+        const contradiction = await fail(async guess => guess == "PYGO"
+            ? [{ white: 2, black: 1 }, { white: 4, black: 0 }]
+            : [{ white: 0, black: 0 }, { white: 0, black: 0 }]);
+        expect(contradiction).to.be.instanceOf(multilock.LockContradictionError);
+        expect(contradiction.kind).to.equal('contradiction');
+
+        const delegate = await fail(() => Promise.reject(new Error("no scores")));
+        expect(delegate).to.be.instanceOf(session.SolverError);
+        expect(delegate.kind).to.equal('delegate');
+        expect(delegate.cause.message).to.equal("no scores");
+        expect(failures).to.deep.equal([contradiction, delegate]);
+    });
+
+    it('should want a score for every lock', () => {
+        const game = new multilock.MultiSession(rules, 2);
+        expect(() => game.submit([{ white: 0, black: 0 }])).to.throw(/each of the 2 locks/);
+    });
+});
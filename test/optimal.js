@@ -0,0 +1,109 @@
+"use strict";
+var __awaiter = (this && this.__awaiter) || function (thisArg, _arguments, P, generator) {
+    return new (P || (P = Promise))(function (resolve, reject) {
+        function fulfilled(value) { try { step(generator.next(value)); } catch (e) { reject(e); } }
+        function rejected(value) { try { step(generator["throw"](value)); } catch (e) { reject(e); } }
+        function step(result) { result.done ? resolve(result.value) : new P(function (resolve) { resolve(result.value); }).then(fulfilled, rejected); }
+        step((generator = generator.apply(thisArg, _arguments || [])).next());
+    });
+};
+var __generator = (this && this.__generator) || function (thisArg, body) {
+    var _ = { label: 0, sent: function() { if (t[0] & 1) throw t[1]; return t[1]; }, trys: [], ops: [] }, f, y, t, g;
+    return g = { next: verb(0), "throw": verb(1), "return": verb(2) }, typeof Symbol === "function" && (g[Symbol.iterator] = function() { return this; }), g;
+    function verb(n) { return function (v) { return step([n, v]); }; }
+    function step(op) {
+        if (f) throw new TypeError("Generator is already executing.");
+        while (_) try {
+            if (f = 1, y && (t = y[op[0] & 2 ? "return" : op[0] ? "throw" : "next"]) && !(t = t.call(y, op[1])).done) return t;
+            if (y = 0, t) op = [0, t.value];
+            switch (op[0]) {
+                case 0: case 1: t = op; break;
+                case 4: _.label++; return { value: op[1], done: false };
+                case 5: _.label++; y = op[1]; op = [0]; continue;
+                case 7: op = _.ops.pop(); _.trys.pop(); continue;
+                default:
+                    if (!(t = _.trys, t = t.length > 0 && t[t.length - 1]) && (op[0] === 6 || op[0] === 2)) { _ = 0; continue; }
+                    if (op[0] === 3 && (!t || (op[1] > t[0] && op[1] < t[3]))) { _.label = op[1]; break; }
+                    if (op[0] === 6 && _.label < t[1]) { _.label = t[1]; t = op; break; }
+                    if (t && _.label < t[2]) { _.label = t[2]; _.ops.push(op); break; }
+                    if (t[2]) _.ops.pop();
+                    _.trys.pop(); continue;
+            }
+            op = body.call(thisArg, _);
+        } catch (e) { op = [6, e]; y = 0; } finally { f = t = 0; }
+        if (op[0] & 5) throw op[1]; return { value: op[0] ? op[1] : void 0, done: true };
+    }
+};
+var _this = this;
+Object.defineProperty(exports, "__esModule", { value: true });
+var chai = require("chai");
+var expect = chai.expect;
+var picker = require("../dist/lib");
+var optimal = require("../dist/optimal");
+var session = require("../dist/session");
+describe('optimal decision trees', function () {
+    // small enough to search exhaustively in a unit test.
+    var rules = { colors: ['B', 'G', 'O', 'R', 'Y'], length: 3, duplicates: false, blanks: false };
+    it('should find the smallest worst case, and prove anything smaller impossible', function () {
+        var tree = optimal.buildDecisionTree(rules, { objective: 'worst' });
+        var report = optimal.evaluateTree(rules, tree);
+        expect(optimal.canSolveWithin(rules, report.worst)).to.equal(true);
+        expect(optimal.canSolveWithin(rules, report.worst - 1)).to.equal(false);
+    });
+    it('should respect the bound when minimizing the average', function () {
+        var worst = optimal.evaluateTree(rules, optimal.buildDecisionTree(rules, { objective: 'worst' })).worst;
+        var unbounded = optimal.evaluateTree(rules, optimal.buildDecisionTree(rules, { objective: 'average', width: Infinity }));
+        var bounded = optimal.evaluateTree(rules, optimal.buildDecisionTree(rules, { objective: 'average', maxDepth: worst }));
+        expect(bounded.worst).to.be.at.most(worst);
+        expect(unbounded.average).to.be.at.most(bounded.average);
+    });
+    it('should start with the opener when one is given', function () {
+        var tree = optimal.buildDecisionTree(rules, { objective: 'worst', opener: "RYB" });
+        expect(tree.guess).to.equal("RYB");
+    });
+    it('should reject a tree that does not solve every code', function () {
+        var tree = { guess: "BGO", branches: {} };
+        expect(function () { return optimal.evaluateTree(rules, tree); }).to.throw();
+    });
+    it('should play the tree as a strategy', function () { return __awaiter(_this, void 0, void 0, function () {
+        var tree, strategy, _loop_1, _i, _a, secret;
+        return __generator(this, function (_b) {
+            switch (_b.label) {
+                case 0:
+                    tree = optimal.buildDecisionTree(rules, { objective: 'worst' });
+                    strategy = optimal.treeStrategy(tree);
+                    _loop_1 = function (secret) {
+                        var attempts;
+                        return __generator(this, function (_a) {
+                            switch (_a.label) {
+                                case 0: return [4 /*yield*/, new Promise(function (resolve, reject) {
+                                        session.loop(rules, {
+                                            guess: function (guess) { return Promise.resolve(picker.calculateScore(rules, secret, guess)); },
+                                            error: reject,
+                                            solved: function (answer) { return answer.answer == secret ? resolve(answer.attempts) : reject(answer); }
+                                        }, { strategy: strategy });
+                                    })];
+                                case 1:
+                                    attempts = _a.sent();
+                                    expect(attempts).to.be.at.most(optimal.evaluateTree(rules, tree).worst);
+                                    return [2 /*return*/];
+                            }
+                        });
+                    };
+                    _i = 0, _a = picker.getAllCombinations(rules);
+                    _b.label = 1;
+                case 1:
+                    if (!(_i < _a.length)) return [3 /*break*/, 4];
+                    secret = _a[_i];
+                    return [5 /*yield**/, _loop_1(secret)];
+                case 2:
+                    _b.sent();
+                    _b.label = 3;
+                case 3:
+                    _i++;
+                    return [3 /*break*/, 1];
+                case 4: return [2 /*return*/];
+            }
+        });
+    }); });
+});
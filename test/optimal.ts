@@ -0,0 +1,51 @@
+import * as chai from 'chai';
+var expect = chai.expect;
+
+import * as picker from '../dist/lib';
+import * as optimal from '../dist/optimal';
+import * as session from '../dist/session';
+
+describe('optimal decision trees', () => {
+    // small enough to search exhaustively in a unit test.
+    const rules: picker.RuleSet = { colors: ['B', 'G', 'O', 'R', 'Y'], length: 3, duplicates: false, blanks: false };
+
+    it('should find the smallest worst case, and prove anything smaller impossible', () => {
+        const tree = optimal.buildDecisionTree(rules, { objective: 'worst' })!;
+        const report = optimal.evaluateTree(rules, tree);
+        expect(optimal.canSolveWithin(rules, report.worst)).to.equal(true);
+        expect(optimal.canSolveWithin(rules, report.worst - 1)).to.equal(false);
+    });
+
+    it('should respect the bound when minimizing the average', () => {
+        const worst = optimal.evaluateTree(rules, optimal.buildDecisionTree(rules, { objective: 'worst' })!).worst;
+        const unbounded = optimal.evaluateTree(rules, optimal.buildDecisionTree(rules, { objective: 'average', width: Infinity })!);
+        const bounded = optimal.evaluateTree(rules, optimal.buildDecisionTree(rules, { objective: 'average', maxDepth: worst })!);
+        expect(bounded.worst).to.be.at.most(worst);
+        expect(unbounded.average).to.be.at.most(bounded.average);
+    });
+
+    it('should start with the opener when one is given', () => {
+        const tree = optimal.buildDecisionTree(rules, { objective: 'worst', opener: "RYB" })!;
+        expect(tree.guess).to.equal("RYB");
+    });
+
+    it('should reject a tree that does not solve every code', () => {
+        const tree: optimal.DecisionTree = { guess: "BGO", branches: {} };
+        expect(() => optimal.evaluateTree(rules, tree)).to.throw();
+    });
+
+    it('should play the tree as a strategy', async () => {
+        const tree = optimal.buildDecisionTree(rules, { objective: 'worst' })!;
+        const strategy = optimal.treeStrategy(tree);
+        for (let secret of picker.getAllCombinations(rules)) {
+            const attempts = await new Promise<number>((resolve, reject) => {
+                session.loop(rules, {
+                    guess: guess => Promise.resolve(picker.calculateScore(rules, secret, guess)),
+                    error: reject,
+                    solved: answer => answer.answer == secret ? resolve(answer.attempts) : reject(answer)
+                }, { strategy });
+            });
+            expect(attempts).to.be.at.most(optimal.evaluateTree(rules, tree).worst);
+        }
+    });
+});
@@ -0,0 +1,306 @@
+"use strict";
+var __assign = (this && this.__assign) || Object.assign || function(t) {
+    for (var s, i = 1, n = arguments.length; i < n; i++) {
+        s = arguments[i];
+        for (var p in s) if (Object.prototype.hasOwnProperty.call(s, p))
+            t[p] = s[p];
+    }
+    return t;
+};
+var __awaiter = (this && this.__awaiter) || function (thisArg, _arguments, P, generator) {
+    return new (P || (P = Promise))(function (resolve, reject) {
+        function fulfilled(value) { try { step(generator.next(value)); } catch (e) { reject(e); } }
+        function rejected(value) { try { step(generator["throw"](value)); } catch (e) { reject(e); } }
+        function step(result) { result.done ? resolve(result.value) : new P(function (resolve) { resolve(result.value); }).then(fulfilled, rejected); }
+        step((generator = generator.apply(thisArg, _arguments || [])).next());
+    });
+};
+var __generator = (this && this.__generator) || function (thisArg, body) {
+    var _ = { label: 0, sent: function() { if (t[0] & 1) throw t[1]; return t[1]; }, trys: [], ops: [] }, f, y, t, g;
+    return g = { next: verb(0), "throw": verb(1), "return": verb(2) }, typeof Symbol === "function" && (g[Symbol.iterator] = function() { return this; }), g;
+    function verb(n) { return function (v) { return step([n, v]); }; }
+    function step(op) {
+        if (f) throw new TypeError("Generator is already executing.");
+        while (_) try {
+            if (f = 1, y && (t = y[op[0] & 2 ? "return" : op[0] ? "throw" : "next"]) && !(t = t.call(y, op[1])).done) return t;
+            if (y = 0, t) op = [0, t.value];
+            switch (op[0]) {
+                case 0: case 1: t = op; break;
+                case 4: _.label++; return { value: op[1], done: false };
+                case 5: _.label++; y = op[1]; op = [0]; continue;
+                case 7: op = _.ops.pop(); _.trys.pop(); continue;
+                default:
+                    if (!(t = _.trys, t = t.length > 0 && t[t.length - 1]) && (op[0] === 6 || op[0] === 2)) { _ = 0; continue; }
+                    if (op[0] === 3 && (!t || (op[1] > t[0] && op[1] < t[3]))) { _.label = op[1]; break; }
+                    if (op[0] === 6 && _.label < t[1]) { _.label = t[1]; t = op; break; }
+                    if (t && _.label < t[2]) { _.label = t[2]; _.ops.push(op); break; }
+                    if (t[2]) _.ops.pop();
+                    _.trys.pop(); continue;
+            }
+            op = body.call(thisArg, _);
+        } catch (e) { op = [6, e]; y = 0; } finally { f = t = 0; }
+        if (op[0] & 5) throw op[1]; return { value: op[0] ? op[1] : void 0, done: true };
+    }
+};
+var _this = this;
+Object.defineProperty(exports, "__esModule", { value: true });
+var chai = require("chai");
+var expect = chai.expect;
+var http = require("http");
+var picker = require("../dist/lib");
+var server = require("../dist/server");
+describe('http server', function () {
+    var instance;
+    var port;
+    before(function (done) {
+        instance = server.createServer({ ttl: 200 });
+        instance.listen(0, function () {
+            port = instance.address().port;
+            done();
+        });
+    });
+    after(function (done) {
+        instance.close(done);
+    });
+    /** Makes a request, resolving with the status and parsed body. */
+    function request(method, path, body) {
+        return new Promise(function (resolve, reject) {
+            var req = http.request({ port: port, method: method, path: path, headers: { 'Content-Type': 'application/json' } }, function (res) {
+                var data = "";
+                res.setEncoding('utf8');
+                res.on('data', function (chunk) { return data += chunk; });
+                res.on('end', function () { return resolve({ status: res.statusCode || 0, body: JSON.parse(data) }); });
+            });
+            req.on('error', reject);
+            req.end(body === undefined ? undefined : typeof body == 'string' ? body : JSON.stringify(body));
+        });
+    }
+    it('should play a game through the api', function () { return __awaiter(_this, void 0, void 0, function () {
+        var secret, created, id, state, guess, score, history, remaining, solved;
+        return __generator(this, function (_a) {
+            switch (_a.label) {
+                case 0:
+                    secret = "GORY";
+                    return [4 /*yield*/, request("POST", "/sessions", { rules: "lock", strategy: "entropy" })];
+                case 1:
+                    created = _a.sent();
+                    expect(created.status).to.equal(201);
+                    expect(created.body.strategy).to.equal("entropy");
+                    id = created.body.id;
+                    state = created.body;
+                    _a.label = 2;
+                case 2:
+                    if (!!state.answer) return [3 /*break*/, 5];
+                    return [4 /*yield*/, request("GET", "/sessions/" + id + "/guess")];
+                case 3:
+                    guess = _a.sent();
+                    score = picker.printScore(picker.calculateScore(picker.lockChallenge, secret, guess.body.guess)) || "0W0B";
+                    return [4 /*yield*/, request("POST", "/sessions/" + id + "/score", { score: score })];
+                case 4:
+                    state = (_a.sent()).body;
+                    return [3 /*break*/, 2];
+                case 5:
+                    expect(state.answer.answer).to.equal(secret);
+                    return [4 /*yield*/, request("GET", "/sessions/" + id + "/history")];
+                case 6:
+                    history = _a.sent();
+                    expect(history.body.history.length).to.equal(state.answer.attempts);
+                    return [4 /*yield*/, request("GET", "/sessions/" + id + "/remaining")];
+                case 7:
+                    remaining = _a.sent();
+                    expect(remaining.body).to.deep.equal({ count: 1, remaining: [secret] });
+                    return [4 /*yield*/, request("GET", "/sessions/" + id + "/guess")];
+                case 8:
+                    solved = _a.sent();
+                    expect(solved.status).to.equal(409);
+                    expect(solved.body.error.code).to.equal('solved');
+                    return [2 /*return*/];
+            }
+        });
+    }); });
+    it('should turn away sessions that are too large or badly set up', function () { return __awaiter(_this, void 0, void 0, function () {
+        var huge, fractional, opener, _a, _i, _b, tolerance, bad, _c;
+        return __generator(this, function (_d) {
+            switch (_d.label) {
+                case 0: return [4 /*yield*/, request("POST", "/sessions", { rules: { colors: "ABCDEFGHIJ".split(''), length: 9, duplicates: true } })];
+                case 1:
+                    huge = _d.sent();
+                    expect(huge.status).to.equal(400);
+                    expect(huge.body.error).to.deep.include({ code: 'invalid-rules', maxCodes: 32768 });
+                    return [4 /*yield*/, request("POST", "/sessions", { rules: { colors: ['A', 'B'], length: 1.5, duplicates: true } })];
+                case 2:
+                    fractional = _d.sent();
+                    expect(fractional.status).to.equal(400);
+                    expect(fractional.body.error.code).to.equal('invalid-rules');
+                    return [4 /*yield*/, request("POST", "/sessions", { opener: "XXXX" })];
+                case 3:
+                    opener = _d.sent();
+                    expect(opener.status).to.equal(400);
+                    expect(opener.body.error.code).to.equal('invalid-opener');
+                    _a = expect;
+                    return [4 /*yield*/, request("POST", "/sessions", { opener: "bgor" })];
+                case 4:
+                    _a.apply(void 0, [(_d.sent()).body.guess]).to.equal("BGOR");
+                    _i = 0, _b = ["1", -1, 1.5];
+                    _d.label = 5;
+                case 5:
+                    if (!(_i < _b.length)) return [3 /*break*/, 8];
+                    tolerance = _b[_i];
+                    return [4 /*yield*/, request("POST", "/sessions", { tolerance: tolerance })];
+                case 6:
+                    bad = _d.sent();
+                    expect(bad.status).to.equal(400);
+                    expect(bad.body.error.code).to.equal('invalid-tolerance');
+                    _d.label = 7;
+                case 7:
+                    _i++;
+                    return [3 /*break*/, 5];
+                case 8:
+                    _c = expect;
+                    return [4 /*yield*/, request("POST", "/sessions", { tolerance: 1 })];
+                case 9:
+                    _c.apply(void 0, [(_d.sent()).status]).to.equal(201);
+                    return [2 /*return*/];
+            }
+        });
+    }); });
+    it('should give custom rules that match a built-in set that set', function () { return __awaiter(_this, void 0, void 0, function () {
+        var lock, _a, _b;
+        return __generator(this, function (_c) {
+            switch (_c.label) {
+                case 0:
+                    lock = { colors: picker.lockChallenge.colors, length: 4 };
+                    _a = expect;
+                    return [4 /*yield*/, request("POST", "/sessions", { rules: lock })];
+                case 1:
+                    _a.apply(void 0, [(_c.sent()).body.guess]).to.equal("PYGO");
+                    _b = expect;
+                    return [4 /*yield*/, request("POST", "/sessions", { rules: __assign({}, lock, { opener: "BGOR" }) })];
+                case 2:
+                    _b.apply(void 0, [(_c.sent()).body.guess]).to.equal("BGOR");
+                    return [2 /*return*/];
+            }
+        });
+    }); });
+    it('should turn away new sessions once it holds as many as it can', function () { return __awaiter(_this, void 0, void 0, function () {
+        var full, post, _a, _b, turnedAway;
+        return __generator(this, function (_c) {
+            switch (_c.label) {
+                case 0:
+                    full = server.createServer({ maxSessions: 2 });
+                    return [4 /*yield*/, new Promise(function (resolve) { return full.listen(0, resolve); })];
+                case 1:
+                    _c.sent();
+                    post = function () { return new Promise(function (resolve, reject) {
+                        var req = http.request({ port: full.address().port, method: "POST", path: "/sessions" }, function (res) {
+                            var data = "";
+                            res.setEncoding('utf8');
+                            res.on('data', function (chunk) { return data += chunk; });
+                            res.on('end', function () { return resolve({ status: res.statusCode || 0, body: JSON.parse(data) }); });
+                        });
+                        req.on('error', reject);
+                        req.end();
+                    }); };
+                    _c.label = 2;
+                case 2:
+                    _c.trys.push([2, , 6, 8]);
+                    _a = expect;
+                    return [4 /*yield*/, post()];
+                case 3:
+                    _a.apply(void 0, [(_c.sent()).status]).to.equal(201);
+                    _b = expect;
+                    return [4 /*yield*/, post()];
+                case 4:
+                    _b.apply(void 0, [(_c.sent()).status]).to.equal(201);
+                    return [4 /*yield*/, post()];
+                case 5:
+                    turnedAway = _c.sent();
+                    expect(turnedAway.status).to.equal(503);
+                    expect(turnedAway.body.error).to.deep.include({ code: 'too-many-sessions', maxSessions: 2 });
+                    return [3 /*break*/, 8];
+                case 6: return [4 /*yield*/, new Promise(function (resolve) { return full.close(resolve); })];
+                case 7:
+                    _c.sent();
+                    return [7 /*endfinally*/];
+                case 8: return [2 /*return*/];
+            }
+        });
+    }); });
+    it('should report errors as structured json', function () { return __awaiter(_this, void 0, void 0, function () {
+        var _a, _b, _c, _d, _e, id, _f, bad, contradiction, undone;
+        return __generator(this, function (_g) {
+            switch (_g.label) {
+                case 0:
+                    _a = expect;
+                    return [4 /*yield*/, request("GET", "/nowhere")];
+                case 1:
+                    _a.apply(void 0, [(_g.sent()).body.error.code]).to.equal('not-found');
+                    _b = expect;
+                    return [4 /*yield*/, request("GET", "/sessions/nope")];
+                case 2:
+                    _b.apply(void 0, [(_g.sent()).body.error.code]).to.equal('session-not-found');
+                    _c = expect;
+                    return [4 /*yield*/, request("POST", "/sessions", "{nope")];
+                case 3:
+                    _c.apply(void 0, [(_g.sent()).body.error.code]).to.equal('invalid-json');
+                    _d = expect;
+                    return [4 /*yield*/, request("POST", "/sessions", { rules: "nope" })];
+                case 4:
+                    _d.apply(void 0, [(_g.sent()).body.error.code]).to.equal('invalid-rules');
+                    _e = expect;
+                    return [4 /*yield*/, request("POST", "/sessions", { strategy: "nope" })];
+                case 5:
+                    _e.apply(void 0, [(_g.sent()).body.error.code]).to.equal('invalid-strategy');
+                    return [4 /*yield*/, request("POST", "/sessions", { rules: { colors: ['B', 'G', 'O', 'R'], length: 3 } })];
+                case 6:
+                    id = (_g.sent()).body.id;
+                    _f = expect;
+                    return [4 /*yield*/, request("GET", "/sessions/" + id + "/score")];
+                case 7:
+                    _f.apply(void 0, [(_g.sent()).status]).to.equal(405);
+                    return [4 /*yield*/, request("POST", "/sessions/" + id + "/score", { score: "5b" })];
+                case 8:
+                    bad = _g.sent();
+                    expect(bad.status).to.equal(400);
+                    expect(bad.body.error).to.deep.include({ code: 'invalid-score', kind: 'range' });
+                    return [4 /*yield*/, request("POST", "/sessions/" + id + "/score", { guess: "BGO", score: { white: 0, black: 2 } })];
+                case 9:
+                    _g.sent();
+                    return [4 /*yield*/, request("POST", "/sessions/" + id + "/score", { guess: "BGR", score: "3w" })];
+                case 10:
+                    contradiction = _g.sent();
+                    expect(contradiction.status).to.equal(409);
+                    expect(contradiction.body.error.code).to.equal('contradiction');
+                    expect(contradiction.body.error.conflicts[0].guess).to.equal("BGO");
+                    return [4 /*yield*/, request("POST", "/sessions/" + id + "/undo")];
+                case 11:
+                    undone = _g.sent();
+                    expect(undone.body.undone.guess).to.equal("BGO");
+                    expect(undone.body.history).to.be.empty;
+                    return [2 /*return*/];
+            }
+        });
+    }); });
+    it('should expire sessions that go unused', function () { return __awaiter(_this, void 0, void 0, function () {
+        var id, _a, _b;
+        return __generator(this, function (_c) {
+            switch (_c.label) {
+                case 0: return [4 /*yield*/, request("POST", "/sessions", {})];
+                case 1:
+                    id = (_c.sent()).body.id;
+                    _a = expect;
+                    return [4 /*yield*/, request("GET", "/sessions/" + id)];
+                case 2:
+                    _a.apply(void 0, [(_c.sent()).status]).to.equal(200);
+                    return [4 /*yield*/, new Promise(function (resolve) { return setTimeout(resolve, 300); })];
+                case 3:
+                    _c.sent();
+                    _b = expect;
+                    return [4 /*yield*/, request("GET", "/sessions/" + id)];
+                case 4:
+                    _b.apply(void 0, [(_c.sent()).status]).to.equal(404);
+                    return [2 /*return*/];
+            }
+        });
+    }); });
+});
@@ -0,0 +1,148 @@
+import * as chai from 'chai';
+var expect = chai.expect;
+
+import * as http from 'http';
+import * as picker from '../dist/lib';
+import * as server from '../dist/server';
+
+describe('http server', () => {
+    let instance: http.Server;
+    let port: number;
+
+    before(done => {
+        instance = server.createServer({ ttl: 200 });
+        instance.listen(0, () => {
+            port = instance.address().port;
+            done();
+        });
+    });
+
+    after(done => {
+        instance.close(done);
+    });
+
+    /** Makes a request, resolving with the status and parsed body. */
+    function request(method: string, path: string, body?: any) {
+        return new Promise<{ status: number, body: any }>((resolve, reject) => {
+            const req = http.request({ port, method, path, headers: { 'Content-Type': 'application/json' } }, res => {
+                let data = "";
+                res.setEncoding('utf8');
+                res.on('data', (chunk: string) => data += chunk);
+                res.on('end', () => resolve({ status: res.statusCode || 0, body: JSON.parse(data) }));
+            });
+            req.on('error', reject);
+            req.end(body === undefined ? undefined : typeof body == 'string' ? body : JSON.stringify(body));
+        });
+    }
+
+    it('should play a game through the api', async () => {
+        const secret = "GORY";
+        const created = await request("POST", "/sessions", { rules: "lock", strategy: "entropy" });
+        expect(created.status).to.equal(201);
+        expect(created.body.strategy).to.equal("entropy");
+        const id = created.body.id;
+
+        let state = created.body;
+        while (!state.answer) {
+            const guess = await request("GET", `/sessions/${id}/guess`);
+            const score = picker.printScore(picker.calculateScore(picker.lockChallenge, secret, guess.body.guess)) || "0W0B";
+            state = (await request("POST", `/sessions/${id}/score`, { score })).body;
+        }
+        expect(state.answer.answer).to.equal(secret);
+
+        const history = await request("GET", `/sessions/${id}/history`);
+        expect(history.body.history.length).to.equal(state.answer.attempts);
+        const remaining = await request("GET", `/sessions/${id}/remaining`);
+        expect(remaining.body).to.deep.equal({ count: 1, remaining: [secret] });
+
+        const solved = await request("GET", `/sessions/${id}/guess`);
+        expect(solved.status).to.equal(409);
+        expect(solved.body.error.code).to.equal('solved');
+    });
+
+    it('should turn away sessions that are too large or badly set up', async () => {
+        const huge = await request("POST", "/sessions", { rules: { colors: "ABCDEFGHIJ".split(''), length: 9, duplicates: true } });
+        expect(huge.status).to.equal(400);
+        expect(huge.body.error).to.deep.include({ code: 'invalid-rules', maxCodes: 32768 });
+
+        const fractional = await request("POST", "/sessions", { rules: { colors: ['A', 'B'], length: 1.5, duplicates: true } });
+        expect(fractional.status).to.equal(400);
+        expect(fractional.body.error.code).to.equal('invalid-rules');
+
+        const opener = await request("POST", "/sessions", { opener: "XXXX" });
+        expect(opener.status).to.equal(400);
+        expect(opener.body.error.code).to.equal('invalid-opener');
+        expect((await request("POST", "/sessions", { opener: "bgor" })).body.guess).to.equal("BGOR");
+
+        for (let tolerance of ["1", -1, 1.5]) {
+            const bad = await request("POST", "/sessions", { tolerance });
+            expect(bad.status).to.equal(400);
+            expect(bad.body.error.code).to.equal('invalid-tolerance');
+        }
+        expect((await request("POST", "/sessions", { tolerance: 1 })).status).to.equal(201);
+    });
+
+    it('should give custom rules that match a built-in set that set', async () => {
+        const lock = { colors: picker.lockChallenge.colors, length: 4 };
+        expect((await request("POST", "/sessions", { rules: lock })).body.guess).to.equal("PYGO");
+        expect((await request("POST", "/sessions", { rules: { ...lock, opener: "BGOR" } })).body.guess).to.equal("BGOR");
+    });
+
+    it('should turn away new sessions once it holds as many as it can', async () => {
+        const full = server.createServer({ maxSessions: 2 });
+        await new Promise(resolve => full.listen(0, resolve));
+        const post = () => new Promise<{ status: number, body: any }>((resolve, reject) => {
+            const req = http.request({ port: full.address().port, method: "POST", path: "/sessions" }, res => {
+                let data = "";
+                res.setEncoding('utf8');
+                res.on('data', (chunk: string) => data += chunk);
+                res.on('end', () => resolve({ status: res.statusCode || 0, body: JSON.parse(data) }));
+            });
+            req.on('error', reject);
+            req.end();
+        });
+
+        try {
+            expect((await post()).status).to.equal(201);
+            expect((await post()).status).to.equal(201);
+            const turnedAway = await post();
+            expect(turnedAway.status).to.equal(503);
+            expect(turnedAway.body.error).to.deep.include({ code: 'too-many-sessions', maxSessions: 2 });
+        }
+        finally {
+            await new Promise(resolve => full.close(resolve));
+        }
+    });
+
+    it('should report errors as structured json', async () => {
+        expect((await request("GET", "/nowhere")).body.error.code).to.equal('not-found');
+        expect((await request("GET", "/sessions/nope")).body.error.code).to.equal('session-not-found');
+        expect((await request("POST", "/sessions", "{nope")).body.error.code).to.equal('invalid-json');
+        expect((await request("POST", "/sessions", { rules: "nope" })).body.error.code).to.equal('invalid-rules');
+        expect((await request("POST", "/sessions", { strategy: "nope" })).body.error.code).to.equal('invalid-strategy');
+
+        const id = (await request("POST", "/sessions", { rules: { colors: ['B', 'G', 'O', 'R'], length: 3 } })).body.id;
+        expect((await request("GET", `/sessions/${id}/score`)).status).to.equal(405);
+
+        const bad = await request("POST", `/sessions/${id}/score`, { score: "5b" });
+        expect(bad.status).to.equal(400);
+        expect(bad.body.error).to.deep.include({ code: 'invalid-score', kind: 'range' });
+
+        await request("POST", `/sessions/${id}/score`, { guess: "BGO", score: { white: 0, black: 2 } });
+        const contradiction = await request("POST", `/sessions/${id}/score`, { guess: "BGR", score: "3w" });
+        expect(contradiction.status).to.equal(409);
+        expect(contradiction.body.error.code).to.equal('contradiction');
+        expect(contradiction.body.error.conflicts[0].guess).to.equal("BGO");
+
+        const undone = await request("POST", `/sessions/${id}/undo`);
+        expect(undone.body.undone.guess).to.equal("BGO");
+        expect(undone.body.history).to.be.empty;
+    });
+
+    it('should expire sessions that go unused', async () => {
+        const id = (await request("POST", "/sessions", {})).body.id;
+        expect((await request("GET", `/sessions/${id}`)).status).to.equal(200);
+        await new Promise(resolve => setTimeout(resolve, 300));
+        expect((await request("GET", `/sessions/${id}`)).status).to.equal(404);
+    });
+});
@@ -0,0 +1,348 @@
+"use strict";
+var __awaiter = (this && this.__awaiter) || function (thisArg, _arguments, P, generator) {
+    return new (P || (P = Promise))(function (resolve, reject) {
+        function fulfilled(value) { try { step(generator.next(value)); } catch (e) { reject(e); } }
+        function rejected(value) { try { step(generator["throw"](value)); } catch (e) { reject(e); } }
+        function step(result) { result.done ? resolve(result.value) : new P(function (resolve) { resolve(result.value); }).then(fulfilled, rejected); }
+        step((generator = generator.apply(thisArg, _arguments || [])).next());
+    });
+};
+var __generator = (this && this.__generator) || function (thisArg, body) {
+    var _ = { label: 0, sent: function() { if (t[0] & 1) throw t[1]; return t[1]; }, trys: [], ops: [] }, f, y, t, g;
+    return g = { next: verb(0), "throw": verb(1), "return": verb(2) }, typeof Symbol === "function" && (g[Symbol.iterator] = function() { return this; }), g;
+    function verb(n) { return function (v) { return step([n, v]); }; }
+    function step(op) {
+        if (f) throw new TypeError("Generator is already executing.");
+        while (_) try {
+            if (f = 1, y && (t = y[op[0] & 2 ? "return" : op[0] ? "throw" : "next"]) && !(t = t.call(y, op[1])).done) return t;
+            if (y = 0, t) op = [0, t.value];
+            switch (op[0]) {
+                case 0: case 1: t = op; break;
+                case 4: _.label++; return { value: op[1], done: false };
+                case 5: _.label++; y = op[1]; op = [0]; continue;
+                case 7: op = _.ops.pop(); _.trys.pop(); continue;
+                default:
+                    if (!(t = _.trys, t = t.length > 0 && t[t.length - 1]) && (op[0] === 6 || op[0] === 2)) { _ = 0; continue; }
+                    if (op[0] === 3 && (!t || (op[1] > t[0] && op[1] < t[3]))) { _.label = op[1]; break; }
+                    if (op[0] === 6 && _.label < t[1]) { _.label = t[1]; t = op; break; }
+                    if (t && _.label < t[2]) { _.label = t[2]; _.ops.push(op); break; }
+                    if (t[2]) _.ops.pop();
+                    _.trys.pop(); continue;
+            }
+            op = body.call(thisArg, _);
+        } catch (e) { op = [6, e]; y = 0; } finally { f = t = 0; }
+        if (op[0] & 5) throw op[1]; return { value: op[0] ? op[1] : void 0, done: true };
+    }
+};
+var _this = this;
+Object.defineProperty(exports, "__esModule", { value: true });
+var chai = require("chai");
+var expect = chai.expect;
+var picker = require("../dist/lib");
+var session = require("../dist/session");
+var strategies = require("../dist/strategies");
+describe('solver sessions', function () {
+    var rules = picker.lockChallenge;
+    /** Plays the session until it's solved, returning the number of attempts. */
+    function play(game, secret) {
+        var answer;
+        while (!answer) {
+            answer = game.submit(picker.calculateScore(rules, secret, game.nextGuess()));
+        }
+        expect(answer.answer).to.equal(secret);
+        return answer.attempts;
+    }
+    it('should solve a game one score at a time', function () {
+        var game = new session.SolverSession(rules);
+        expect(game.nextGuess()).to.equal("PYGO");
+        expect(game.remaining().length).to.equal(360);
+        expect(play(game, "YOBR")).to.equal(6);
+        expect(game.history().length).to.equal(6);
+        expect(function () { return game.nextGuess(); }).to.throw();
+    });
+    it('should undo the last score', function () {
+        var game = new session.SolverSession(rules);
+        game.submit({ white: 2, black: 1 });
+        var guess = game.nextGuess();
+        var remaining = game.remaining();
+        game.submit({ white: 0, black: 2 });
+        expect(game.undo()).to.deep.equal({ guess: guess, score: { white: 0, black: 2 } });
+        expect(game.remaining()).to.deep.equal(remaining);
+        expect(game.nextGuess()).to.equal(guess);
+        game.undo();
+        expect(game.remaining().length).to.equal(360);
+        expect(game.undo()).to.equal(undefined);
+    });
+    it('should accept guesses the solver did not choose', function () {
+        var game = new session.SolverSession(rules);
+        game.submit(picker.calculateScore(rules, "GORY", "BGOR"), "BGOR");
+        expect(game.history()[0].guess).to.equal("BGOR");
+        expect(game.remaining()).to.contain("GORY");
+    });
+    it('should save and resume a game half way through', function () {
+        var game = new session.SolverSession(rules, { strategy: strategies.createStrategy("entropy:all") });
+        game.submit(picker.calculateScore(rules, "RBYO", game.nextGuess()));
+        game.submit(picker.calculateScore(rules, "RBYO", game.nextGuess()));
+        var saved = JSON.parse(JSON.stringify(game));
+        var resumed = session.SolverSession.fromJSON(saved);
+        expect(resumed.strategy.name).to.equal("entropy:all");
+        expect(resumed.history()).to.deep.equal(game.history());
+        expect(resumed.remaining()).to.deep.equal(game.remaining());
+        expect(resumed.nextGuess()).to.equal(game.nextGuess());
+        expect(play(resumed, "RBYO")).to.equal(play(game, "RBYO"));
+    });
+    it('should resolve the main loop with the answer', function () { return __awaiter(_this, void 0, void 0, function () {
+        var answer;
+        return __generator(this, function (_a) {
+            switch (_a.label) {
+                case 0: return [4 /*yield*/, session.loop(rules, {
+                        guess: function (guess) { return Promise.resolve(picker.calculateScore(rules, "OPGY", guess)); },
+                        error: function () { throw new Error("should not fail"); },
+                        solved: function () { }
+                    })];
+                case 1:
+                    answer = _a.sent();
+                    expect(answer).to.deep.equal({ answer: "OPGY", attempts: 3 });
+                    return [2 /*return*/];
+            }
+        });
+    }); });
+    it('should still run the main loop from lib', function () { return __awaiter(_this, void 0, void 0, function () {
+        var delegates, _a;
+        return __generator(this, function (_b) {
+            switch (_b.label) {
+                case 0:
+                    delegates = {
+                        guess: function (guess) { return Promise.resolve(picker.calculateScore(rules, guess, "OPGY")); },
+                        solved: function () { }
+                    };
+                    _a = expect;
+                    return [4 /*yield*/, picker.loop(rules, delegates)];
+                case 1:
+                    _a.apply(void 0, [_b.sent()]).to.deep.equal({ answer: "OPGY", attempts: 3 });
+                    return [2 /*return*/];
+            }
+        });
+    }); });
+    it('should reject a score that contradicts the earlier ones, and name them', function () {
+        var game = new session.SolverSession(rules);
+        game.submit(picker.calculateScore(rules, "BGOR", "PYGO"), "PYGO"); // 2W
+        game.submit(picker.calculateScore(rules, "BGOR", "BGYP"), "BGYP"); // 2B
+        game.submit(picker.calculateScore(rules, "BGOR", "ROBY"), "ROBY"); // 3W
+        var remaining = game.remaining();
+        // BGOR is the only code left, so claiming it has no blacks contradicts the second turn.
+        var bad = { white: 4, black: 0 };
+        expect(game.conflicts(bad, "BGOR").map(function (t) { return t.index; })).to.not.be.empty;
+        expect(function () { return game.submit(bad, "BGOR"); }).to.throw(session.ContradictionError);
+        expect(game.remaining()).to.deep.equal(remaining);
+        expect(game.history().length).to.equal(3);
+        try {
+            game.submit(bad, "BGOR");
+        }
+        catch (error) {
+            expect(error.turn.index).to.equal(3);
+            expect(error.conflicts.length).to.be.greaterThan(0);
+            error.conflicts.forEach(function (c) { return expect(c.index).to.be.lessThan(3); });
+        }
+        expect(game.conflicts({ white: 0, black: 4 }, "BGOR")).to.be.empty;
+    });
+    it('should let an earlier score be corrected', function () {
+        var game = new session.SolverSession(rules);
+        game.submit({ white: 2, black: 0 }, "PYGO");
+        game.submit({ white: 2, black: 0 }, "BGYP"); // mistyped: should have been 2B for BGOR
+        expect(function () { return game.submit({ white: 0, black: 4 }, "BGOR"); }).to.throw(session.ContradictionError);
+        expect(function () { return game.correct(1, { white: 4, black: 0 }); }).to.throw(session.ContradictionError);
+        expect(game.history()[1].score).to.deep.equal({ white: 2, black: 0 });
+        game.correct(1, { white: 0, black: 2 });
+        expect(game.remaining()).to.contain("BGOR");
+        expect(game.submit({ white: 0, black: 4 }, "BGOR")).to.deep.equal({ answer: "BGOR", attempts: 3 });
+        expect(function () { return game.correct(5, { white: 0, black: 0 }); }).to.throw(/no turn/);
+    });
+    it('should tolerate a wrong score when asked to', function () {
+        var secret = "OPGY";
+        var lie = { white: 0, black: 0 };
+        var strict = new session.SolverSession(rules);
+        expect(function () { return strict.submit(lie, "PYGO"); }).to.throw(session.ContradictionError);
+        var tolerant = new session.SolverSession(rules, { tolerance: 1 });
+        tolerant.submit(lie, "PYGO");
+        expect(tolerant.remaining()).to.contain(secret);
+        var answer;
+        while (!answer) {
+            answer = tolerant.submit(picker.calculateScore(rules, secret, tolerant.nextGuess()));
+        }
+        expect(answer.answer).to.equal(secret);
+        expect(session.SolverSession.fromJSON(JSON.parse(JSON.stringify(tolerant))).tolerance).to.equal(1);
+    });
+    it('should ask the delegates for a correction', function () { return __awaiter(_this, void 0, void 0, function () {
+        var asked, answer;
+        return __generator(this, function (_a) {
+            switch (_a.label) {
+                case 0:
+                    asked = 0;
+                    return [4 /*yield*/, session.loop(rules, {
+                            guess: function (guess) { return Promise.resolve(guess == "PYGO" ? { white: 0, black: 0 } : picker.calculateScore(rules, "OPGY", guess)); },
+                            error: function (error) { throw error; },
+                            solved: function () { },
+                            contradiction: function (error) {
+                                asked++;
+                                return Promise.resolve({ index: error.turn.index, score: picker.calculateScore(rules, "OPGY", error.turn.guess) });
+                            }
+                        })];
+                case 1:
+                    answer = _a.sent();
+                    expect(asked).to.equal(1);
+                    expect(answer.answer).to.equal("OPGY");
+                    return [2 /*return*/];
+            }
+        });
+    }); });
+    it('should explain each guess to the delegates before it is made', function () { return __awaiter(_this, void 0, void 0, function () {
+        var explained;
+        return __generator(this, function (_a) {
+            switch (_a.label) {
+                case 0:
+                    explained = [];
+                    return [4 /*yield*/, session.loop(rules, {
+                            guess: function (guess) {
+                                expect(explained[explained.length - 1]).to.equal(guess);
+                                return Promise.resolve(picker.calculateScore(rules, "YOBR", guess));
+                            },
+                            error: function (error) { throw error; },
+                            solved: function () { },
+                            explain: function (explanation) { return explained.push(explanation.guess); }
+                        })];
+                case 1:
+                    _a.sent();
+                    expect(explained.length).to.equal(6);
+                    return [2 /*return*/];
+            }
+        });
+    }); });
+    it('should report every event and the progress of each guess', function () { return __awaiter(_this, void 0, void 0, function () {
+        var events, reports;
+        return __generator(this, function (_a) {
+            switch (_a.label) {
+                case 0:
+                    events = [];
+                    reports = 0;
+                    return [4 /*yield*/, session.loop(rules, {
+                            guess: function (guess) { return Promise.resolve(picker.calculateScore(rules, guess, "OPGY")); },
+                            solved: function () { return events.push("answer"); },
+                            progress: function (progress) {
+                                expect(progress.rated).to.be.at.most(progress.total);
+                                reports++;
+                            },
+                            event: function (event) { return events.push(event.type); }
+                        })];
+                case 1:
+                    _a.sent();
+                    expect(events).to.deep.equal(["guess", "score", "guess", "score", "guess", "score", "solved", "answer"]);
+                    expect(reports).to.be.at.least(3);
+                    return [2 /*return*/];
+            }
+        });
+    }); });
+    it('should reject with a typed error when a delegate fails', function () { return __awaiter(_this, void 0, void 0, function () {
+        var reported, error;
+        return __generator(this, function (_a) {
+            switch (_a.label) {
+                case 0:
+                    reported = [];
+                    return [4 /*yield*/, session.loop(rules, {
+                            guess: function () { return Promise.reject(new Error("unplugged")); },
+                            error: function (error) { return reported.push(error); },
+                            solved: function () { }
+                        }).then(function () { return undefined; }, function (error) { return error; })];
+                case 1:
+                    error = _a.sent();
+                    expect(error).to.be.instanceOf(session.SolverError);
+                    expect(error.kind).to.equal('delegate');
+                    expect(error.cause.message).to.equal("unplugged");
+                    expect(reported).to.deep.equal([error]);
+                    return [2 /*return*/];
+            }
+        });
+    }); });
+    it('should reject with the contradiction when it cannot be corrected', function () { return __awaiter(_this, void 0, void 0, function () {
+        var error;
+        return __generator(this, function (_a) {
+            switch (_a.label) {
+                case 0: return [4 /*yield*/, session.loop(rules, {
+                        guess: function () { return Promise.resolve({ white: 0, black: 0 }); },
+                        solved: function () { }
+                    }).then(function () { return undefined; }, function (error) { return error; })];
+                case 1:
+                    error = _a.sent();
+                    expect(error).to.be.instanceOf(session.ContradictionError);
+                    expect(error.kind).to.equal('contradiction');
+                    return [2 /*return*/];
+            }
+        });
+    }); });
+    /** A signal that's aborted by hand, which keeps track of the listeners it has. */
+    function abortable() {
+        var listeners = [];
+        var signal = {
+            aborted: false,
+            addEventListener: function (_type, listener) { listeners.push(listener); },
+            removeEventListener: function (_type, listener) { listeners = listeners.filter(function (l) { return l != listener; }); }
+        };
+        return {
+            signal: signal,
+            listeners: function () { return listeners.length; },
+            abort: function () {
+                signal.aborted = true;
+                listeners.slice().forEach(function (listener) { return listener(); });
+            }
+        };
+    }
+    it('should stop when the signal is aborted', function () { return __awaiter(_this, void 0, void 0, function () {
+        var controller, guesses, error, pending, waiting, _a;
+        return __generator(this, function (_b) {
+            switch (_b.label) {
+                case 0:
+                    controller = abortable();
+                    guesses = 0;
+                    return [4 /*yield*/, session.loop(rules, {
+                            guess: function (guess) {
+                                if (++guesses == 2)
+                                    controller.abort();
+                                return Promise.resolve(picker.calculateScore(rules, guess, "OPGY"));
+                            },
+                            solved: function () { throw new Error("should not be solved"); }
+                        }, { signal: controller.signal }).then(function () { return undefined; }, function (error) { return error; })];
+                case 1:
+                    error = _b.sent();
+                    expect(error.kind).to.equal('aborted');
+                    expect(guesses).to.equal(2);
+                    pending = abortable();
+                    waiting = session.loop(rules, { guess: function () { return new Promise(function () { }); }, solved: function () { } }, { signal: pending.signal });
+                    setTimeout(function () { return pending.abort(); }, 10);
+                    _a = expect;
+                    return [4 /*yield*/, waiting.then(function () { return undefined; }, function (error) { return error; })];
+                case 2:
+                    _a.apply(void 0, [(_b.sent()).kind]).to.equal('aborted');
+                    expect(pending.listeners()).to.equal(0);
+                    return [2 /*return*/];
+            }
+        });
+    }); });
+    it('should make the best guess found so far when the time budget runs out', function () { return __awaiter(_this, void 0, void 0, function () {
+        var large, game, found;
+        return __generator(this, function (_a) {
+            switch (_a.label) {
+                case 0:
+                    large = picker.superMastermind;
+                    game = new session.SolverSession(large, { strategy: strategies.createStrategy("entropy:all"), budget: 0 });
+                    game.submit({ white: 1, black: 1 }, game.nextGuess());
+                    return [4 /*yield*/, game.findGuess()];
+                case 1:
+                    found = _a.sent();
+                    expect(found.complete).to.be.false;
+                    expect(picker.isValidCode(large, found.guess)).to.be.true;
+                    expect(game.nextGuess()).to.equal(found.guess);
+                    return [2 /*return*/];
+            }
+        });
+    }); });
+});
@@ -0,0 +1,256 @@
+import * as chai from 'chai';
+var expect = chai.expect;
+
+import * as picker from '../dist/lib';
+import * as session from '../dist/session';
+import * as strategies from '../dist/strategies';
+
+describe('solver sessions', () => {
+    const rules = picker.lockChallenge;
+
+    /** Plays the session until it's solved, returning the number of attempts. */
+    function play(game: session.SolverSession, secret: string) {
+        let answer: picker.Answer | undefined;
+        while (!answer) {
+            answer = game.submit(picker.calculateScore(rules, secret, game.nextGuess()));
+        }
+        expect(answer.answer).to.equal(secret);
+        return answer.attempts;
+    }
+
+    it('should solve a game one score at a time', () => {
+        const game = new session.SolverSession(rules);
+        expect(game.nextGuess()).to.equal("PYGO");
+        expect(game.remaining().length).to.equal(360);
+        expect(play(game, "YOBR")).to.equal(6);
+        expect(game.history().length).to.equal(6);
+        expect(() => game.nextGuess()).to.throw();
+    });
+
+    it('should undo the last score', () => {
+        const game = new session.SolverSession(rules);
+        game.submit({ white: 2, black: 1 });
+        const guess = game.nextGuess();
+        const remaining = game.remaining();
+        game.submit({ white: 0, black: 2 });
+
+        expect(game.undo()).to.deep.equal({ guess, score: { white: 0, black: 2 } });
+        expect(game.remaining()).to.deep.equal(remaining);
+        expect(game.nextGuess()).to.equal(guess);
+
+        game.undo();
+        expect(game.remaining().length).to.equal(360);
+        expect(game.undo()).to.equal(undefined);
+    });
+
+    it('should accept guesses the solver did not choose', () => {
+        const game = new session.SolverSession(rules);
+        game.submit(picker.calculateScore(rules, "GORY", "BGOR"), "BGOR");
+        expect(game.history()[0].guess).to.equal("BGOR");
+        expect(game.remaining()).to.contain("GORY");
+    });
+
+    it('should save and resume a game half way through', () => {
+        const game = new session.SolverSession(rules, { strategy: strategies.createStrategy("entropy:all") });
+        game.submit(picker.calculateScore(rules, "RBYO", game.nextGuess()));
+        game.submit(picker.calculateScore(rules, "RBYO", game.nextGuess()));
+
+        const saved = JSON.parse(JSON.stringify(game));
+        const resumed = session.SolverSession.fromJSON(saved);
+        expect(resumed.strategy.name).to.equal("entropy:all");
+        expect(resumed.history()).to.deep.equal(game.history());
+        expect(resumed.remaining()).to.deep.equal(game.remaining());
+        expect(resumed.nextGuess()).to.equal(game.nextGuess());
+        expect(play(resumed, "RBYO")).to.equal(play(game, "RBYO"));
+    });
+
+    it('should resolve the main loop with the answer', async () => {
+        const answer = await session.loop(rules, {
+            guess: guess => Promise.resolve(picker.calculateScore(rules, "OPGY", guess)),
+            error: () => { throw new Error("should not fail"); },
+            solved: () => { }
+        });
+        expect(answer).to.deep.equal({ answer: "OPGY", attempts: 3 });
+    });
+
+    it('should still run the main loop from lib', async () => {
+        const delegates: picker.Delegates = {
+            guess: guess => Promise.resolve(picker.calculateScore(rules, guess, "OPGY")),
+            solved: () => { }
+        };
+        expect(await picker.loop(rules, delegates)).to.deep.equal({ answer: "OPGY", attempts: 3 });
+    });
+
+    it('should reject a score that contradicts the earlier ones, and name them', () => {
+        const game = new session.SolverSession(rules);
+        game.submit(picker.calculateScore(rules, "BGOR", "PYGO"), "PYGO");  // 2W
+        game.submit(picker.calculateScore(rules, "BGOR", "BGYP"), "BGYP");  // 2B
+        game.submit(picker.calculateScore(rules, "BGOR", "ROBY"), "ROBY");  // 3W
+        const remaining = game.remaining();
+
+        // BGOR is the only code left, so claiming it has no blacks contradicts the second turn.
+        const bad = { white: 4, black: 0 };
+        expect(game.conflicts(bad, "BGOR").map(t => t.index)).to.not.be.empty;
+        expect(() => game.submit(bad, "BGOR")).to.throw(session.ContradictionError);
+        expect(game.remaining()).to.deep.equal(remaining);
+        expect(game.history().length).to.equal(3);
+
+        try {
+            game.submit(bad, "BGOR");
+        }
+        catch (error) {
+            expect(error.turn.index).to.equal(3);
+            expect(error.conflicts.length).to.be.greaterThan(0);
+            error.conflicts.forEach((c: session.IndexedTurn) => expect(c.index).to.be.lessThan(3));
+        }
+        expect(game.conflicts({ white: 0, black: 4 }, "BGOR")).to.be.empty;
+    });
+
+    it('should let an earlier score be corrected', () => {
+        const game = new session.SolverSession(rules);
+        game.submit({ white: 2, black: 0 }, "PYGO");
+        game.submit({ white: 2, black: 0 }, "BGYP");     // mistyped: should have been 2B for BGOR
+        expect(() => game.submit({ white: 0, black: 4 }, "BGOR")).to.throw(session.ContradictionError);
+
+        expect(() => game.correct(1, { white: 4, black: 0 })).to.throw(session.ContradictionError);
+        expect(game.history()[1].score).to.deep.equal({ white: 2, black: 0 });
+
+        game.correct(1, { white: 0, black: 2 });
+        expect(game.remaining()).to.contain("BGOR");
+        expect(game.submit({ white: 0, black: 4 }, "BGOR")).to.deep.equal({ answer: "BGOR", attempts: 3 });
+        expect(() => game.correct(5, { white: 0, black: 0 })).to.throw(/no turn/);
+    });
+
+    it('should tolerate a wrong score when asked to', () => {
+        const secret = "OPGY";
+        const lie = { white: 0, black: 0 };
+        const strict = new session.SolverSession(rules);
+        expect(() => strict.submit(lie, "PYGO")).to.throw(session.ContradictionError);
+
+        const tolerant = new session.SolverSession(rules, { tolerance: 1 });
+        tolerant.submit(lie, "PYGO");
+        expect(tolerant.remaining()).to.contain(secret);
+        let answer: picker.Answer | undefined;
+        while (!answer) {
+            answer = tolerant.submit(picker.calculateScore(rules, secret, tolerant.nextGuess()));
+        }
+        expect(answer.answer).to.equal(secret);
+        expect(session.SolverSession.fromJSON(JSON.parse(JSON.stringify(tolerant))).tolerance).to.equal(1);
+    });
+
+    it('should ask the delegates for a correction', async () => {
+        let asked = 0;
+        const answer = await session.loop(rules, {
+            guess: guess => Promise.resolve(guess == "PYGO" ? { white: 0, black: 0 } : picker.calculateScore(rules, "OPGY", guess)),
+            error: error => { throw error; },
+            solved: () => { },
+            contradiction: error => {
+                asked++;
+                return Promise.resolve({ index: error.turn.index, score: picker.calculateScore(rules, "OPGY", error.turn.guess) });
+            }
+        });
+        expect(asked).to.equal(1);
+        expect(answer!.answer).to.equal("OPGY");
+    });
+
+    it('should explain each guess to the delegates before it is made', async () => {
+        const explained: string[] = [];
+        await session.loop(rules, {
+            guess: guess => {
+                expect(explained[explained.length - 1]).to.equal(guess);
+                return Promise.resolve(picker.calculateScore(rules, "YOBR", guess));
+            },
+            error: error => { throw error; },
+            solved: () => { },
+            explain: explanation => explained.push(explanation.guess)
+        });
+        expect(explained.length).to.equal(6);
+    });
+
+    it('should report every event and the progress of each guess', async () => {
+        const events: string[] = [];
+        let reports = 0;
+        await session.loop(rules, {
+            guess: guess => Promise.resolve(picker.calculateScore(rules, guess, "OPGY")),
+            solved: () => events.push("answer"),
+            progress: progress => {
+                expect(progress.rated).to.be.at.most(progress.total);
+                reports++;
+            },
+            event: event => events.push(event.type)
+        });
+        expect(events).to.deep.equal(["guess", "score", "guess", "score", "guess", "score", "solved", "answer"]);
+        expect(reports).to.be.at.least(3);
+    });
+
+    it('should reject with a typed error when a delegate fails', async () => {
+        const reported: session.SolverError[] = [];
+        const error = await session.loop(rules, {
+            guess: () => Promise.reject(new Error("unplugged")),
+            error: error => reported.push(error),
+            solved: () => { }
+        }).then(() => undefined, error => error);
+        expect(error).to.be.instanceOf(session.SolverError);
+        expect(error.kind).to.equal('delegate');
+        expect(error.cause.message).to.equal("unplugged");
+        expect(reported).to.deep.equal([error]);
+    });
+
+    it('should reject with the contradiction when it cannot be corrected', async () => {
+        const error = await session.loop(rules, {
+            guess: () => Promise.resolve({ white: 0, black: 0 }),
+            solved: () => { }
+        }).then(() => undefined, error => error);
+        expect(error).to.be.instanceOf(session.ContradictionError);
+        expect(error.kind).to.equal('contradiction');
+    });
+
+    /** A signal that's aborted by hand, which keeps track of the listeners it has. */
+    function abortable() {
+        let listeners: (() => void)[] = [];
+        const signal = {
+            aborted: false,
+            addEventListener: (_type: 'abort', listener: () => void) => { listeners.push(listener); },
+            removeEventListener: (_type: 'abort', listener: () => void) => { listeners = listeners.filter(l => l != listener); }
+        };
+        return {
+            signal,
+            listeners: () => listeners.length,
+            abort: () => {
+                signal.aborted = true;
+                listeners.slice().forEach(listener => listener());
+            }
+        };
+    }
+
+    it('should stop when the signal is aborted', async () => {
+        const controller = abortable();
+        let guesses = 0;
+        const error = await session.loop(rules, {
+            guess: guess => {
+                if (++guesses == 2) controller.abort();
+                return Promise.resolve(picker.calculateScore(rules, guess, "OPGY"));
+            },
+            solved: () => { throw new Error("should not be solved"); }
+        }, { signal: controller.signal }).then(() => undefined, error => error);
+        expect(error.kind).to.equal('aborted');
+        expect(guesses).to.equal(2);
+
+        // a guess that never comes back is abandoned too, and leaves nothing behind on the signal.
+        const pending = abortable();
+        const waiting = session.loop(rules, { guess: () => new Promise(() => { }), solved: () => { } }, { signal: pending.signal });
+        setTimeout(() => pending.abort(), 10);
+        expect((await waiting.then(() => undefined, error => error)).kind).to.equal('aborted');
+        expect(pending.listeners()).to.equal(0);
+    });
+
+    it('should make the best guess found so far when the time budget runs out', async () => {
+        const large = picker.superMastermind;
+        const game = new session.SolverSession(large, { strategy: strategies.createStrategy("entropy:all"), budget: 0 });
+        game.submit({ white: 1, black: 1 }, game.nextGuess());
+        const found = await game.findGuess();
+        expect(found.complete).to.be.false;
+        expect(picker.isValidCode(large, found.guess)).to.be.true;
+        expect(game.nextGuess()).to.equal(found.guess);
+    });
+});
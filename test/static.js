@@ -0,0 +1,62 @@
+"use strict";
+var __assign = (this && this.__assign) || Object.assign || function(t) {
+    for (var s, i = 1, n = arguments.length; i < n; i++) {
+        s = arguments[i];
+        for (var p in s) if (Object.prototype.hasOwnProperty.call(s, p))
+            t[p] = s[p];
+    }
+    return t;
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+var chai = require("chai");
+var expect = chai.expect;
+var picker = require("../dist/lib");
+var statics = require("../dist/static");
+describe('static solving', function () {
+    var rules = __assign({}, picker.lockChallenge, { length: 3, opener: undefined });
+    /** Scores every probe in the plan against the code, along with the final guess if it needs one. */
+    function scoresFor(plan, code) {
+        var scores = plan.probes.map(function (probe) { return picker.calculateScore(rules, probe, code); });
+        var final = statics.finalGuess(plan, scores);
+        if (final)
+            scores.push(picker.calculateScore(rules, final, code));
+        return scores;
+    }
+    it('should find a plan that identifies every code', function () {
+        var plan = statics.findStaticPlan(rules);
+        expect(plan).to.not.be.undefined;
+        expect(plan.finals).to.deep.equal({});
+        var report = statics.verifyPlan(plan);
+        expect(report.codes).to.equal(picker.getAllCombinations(rules).length);
+        expect(report.failures).to.deep.equal([]);
+        expect(report.adaptive).to.equal(0);
+        expect(report.guesses).to.equal(plan.probes.length + 1);
+    });
+    it('should decode a code from its scores', function () {
+        var plan = statics.findStaticPlan(rules);
+        expect(statics.decode(plan, scoresFor(plan, "YOP"))).to.equal("YOP");
+    });
+    it('should need no more probes when a final guess is allowed', function () {
+        var plan = statics.findStaticPlan(rules);
+        var adaptive = statics.findStaticPlan(rules, { adaptive: true });
+        expect(adaptive.probes.length).to.be.at.most(plan.probes.length);
+        var report = statics.verifyPlan(adaptive);
+        expect(report.failures).to.deep.equal([]);
+        expect(report.guesses).to.be.at.most(adaptive.probes.length + 2);
+        picker.getAllCombinations(rules).forEach(function (code) {
+            expect(statics.decode(adaptive, scoresFor(adaptive, code))).to.equal(code);
+        });
+    });
+    it('should give up when the probes run out', function () {
+        expect(statics.findStaticPlan(rules, { maxProbes: 1 })).to.be.undefined;
+    });
+    it('should report the codes a bad plan fails on', function () {
+        var report = statics.verifyPlan({ rules: rules, probes: ["BGO"], finals: {} });
+        expect(report.failures.length).to.be.greaterThan(0);
+    });
+    it('should reject scores that no code gives', function () {
+        var plan = { rules: rules, probes: ["BGO", "BGO"], finals: {} };
+        var scores = [{ white: 0, black: 3 }, { white: 0, black: 0 }];
+        expect(function () { return statics.decode(plan, scores); }).to.throw(/No code/);
+    });
+});
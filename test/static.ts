@@ -0,0 +1,62 @@
+import * as chai from 'chai';
+var expect = chai.expect;
+
+import * as picker from '../dist/lib';
+import * as statics from '../dist/static';
+
+describe('static solving', () => {
+    const rules: picker.RuleSet = { ...picker.lockChallenge, length: 3, opener: undefined };
+
+    /** Scores every probe in the plan against the code, along with the final guess if it needs one. */
+    function scoresFor(plan: statics.StaticPlan, code: string) {
+        const scores = plan.probes.map(probe => picker.calculateScore(rules, probe, code));
+        const final = statics.finalGuess(plan, scores);
+        if (final) scores.push(picker.calculateScore(rules, final, code));
+        return scores;
+    }
+
+    it('should find a plan that identifies every code', () => {
+        const plan = statics.findStaticPlan(rules)!;
+        expect(plan).to.not.be.undefined;
+        expect(plan.finals).to.deep.equal({});
+
+        const report = statics.verifyPlan(plan);
+        expect(report.codes).to.equal(picker.getAllCombinations(rules).length);
+        expect(report.failures).to.deep.equal([]);
+        expect(report.adaptive).to.equal(0);
+        expect(report.guesses).to.equal(plan.probes.length + 1);
+    });
+
+    it('should decode a code from its scores', () => {
+        const plan = statics.findStaticPlan(rules)!;
+        expect(statics.decode(plan, scoresFor(plan, "YOP"))).to.equal("YOP");
+    });
+
+    it('should need no more probes when a final guess is allowed', () => {
+        const plan = statics.findStaticPlan(rules)!;
+        const adaptive = statics.findStaticPlan(rules, { adaptive: true })!;
+        expect(adaptive.probes.length).to.be.at.most(plan.probes.length);
+
+        const report = statics.verifyPlan(adaptive);
+        expect(report.failures).to.deep.equal([]);
+        expect(report.guesses).to.be.at.most(adaptive.probes.length + 2);
+        picker.getAllCombinations(rules).forEach(code => {
+            expect(statics.decode(adaptive, scoresFor(adaptive, code))).to.equal(code);
+        });
+    });
+
+    it('should give up when the probes run out', () => {
+        expect(statics.findStaticPlan(rules, { maxProbes: 1 })).to.be.undefined;
+    });
+
+    it('should report the codes a bad plan fails on', () => {
+        const report = statics.verifyPlan({ rules, probes: ["BGO"], finals: {} });
+        expect(report.failures.length).to.be.greaterThan(0);
+    });
+
+    it('should reject scores that no code gives', () => {
+        const plan: statics.StaticPlan = { rules, probes: ["BGO", "BGO"], finals: {} };
+        const scores = [{ white: 0, black: 3 }, { white: 0, black: 0 }];
+        expect(() => statics.decode(plan, scores)).to.throw(/No code/);
+    });
+});
@@ -0,0 +1,67 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+var chai = require("chai");
+var expect = chai.expect;
+var picker = require("../dist/lib");
+var strategies = require("../dist/strategies");
+describe('strategies', function () {
+    var rules = picker.lockChallenge;
+    var remaining = picker.getAllCombinations(rules);
+    it('should create every strategy by name', function () {
+        strategies.strategyNames.forEach(function (name) {
+            var strategy = strategies.createStrategy(name + ":all");
+            expect(strategy.name.indexOf(name)).to.equal(0);
+            expect(remaining).to.contain(strategy.nextGuess({ rules: rules, remaining: remaining.slice(0, 20), history: [] }));
+        });
+        expect(strategies.createStrategy("minimax")).to.equal(picker.minimax);
+        expect(function () { return strategies.createStrategy("bogus"); }).to.throw();
+        expect(function () { return strategies.createStrategy("minimax:bogus"); }).to.throw();
+    });
+    it('should partition every remaining code into exactly one group', function () {
+        var sizes = picker.partition(rules, "PYGO", remaining);
+        expect(sizes.reduce(function (p, c) { return p + c; }, 0)).to.equal(remaining.length);
+        expect(sizes.length).to.equal(picker.getAllPossibleScores(rules).length);
+    });
+    it('should break ties deterministically', function () {
+        var history = [{ guess: "PYGO", score: { white: 2, black: 1 } }];
+        var left = remaining.filter(function (c) { return picker.scoreEquals(picker.calculateScore(rules, c, "PYGO"), history[0].score); });
+        strategies.strategyNames.forEach(function (name) {
+            var first = strategies.createStrategy(name).nextGuess({ rules: rules, remaining: left, history: history });
+            var second = strategies.createStrategy(name).nextGuess({ rules: rules, remaining: left, history: history });
+            expect(first).to.equal(second);
+            expect(left).to.contain(first);
+        });
+    });
+    it('should still guess when every code left has been guessed already', function () {
+        // with tolerance, a code that was guessed can stay in the running.
+        var left = ["YPOG", "OGYP"];
+        var history = left.map(function (guess) { return ({ guess: guess, score: { white: 4, black: 0 } }); });
+        expect(strategies.randomStrategy().nextGuess({ rules: rules, remaining: left, history: history })).to.equal("YPOG");
+    });
+    it('should prefer a candidate that could be the answer when ratings tie', function () {
+        var strategy = picker.heuristicStrategy('constant', function () { return 0; }, 'all');
+        var left = ["YPOG", "OGYP"];
+        expect(strategy.nextGuess({ rules: rules, remaining: left, history: [] })).to.equal("OGYP");
+    });
+    it('should explain why a guess was chosen', function () {
+        var history = [{ guess: "PYGO", score: { white: 2, black: 0 } }];
+        var left = picker.parePossibilities(rules, remaining, "PYGO", history[0].score);
+        var context = { rules: rules, remaining: left, history: history };
+        strategies.strategyNames.forEach(function (name) {
+            var strategy = strategies.createStrategy(name);
+            var guess = strategy.nextGuess(context);
+            var explanation = picker.explainGuess(context, guess, strategy);
+            expect(explanation.remaining).to.equal(left.length);
+            expect(explanation.partition.reduce(function (p, c) { return p + c.size; }, 0)).to.equal(left.length);
+            expect(explanation.runnersUp.length).to.equal(3);
+            expect(explanation.runnersUp.map(function (g) { return g.guess; })).to.not.contain(guess);
+            expect(explanation.candidates).to.equal(undefined);
+            if (strategy.rank) {
+                expect(strategy.rank(context, 1)[0].guess).to.equal(guess);
+            }
+        });
+        var few = picker.explainGuess({ rules: rules, remaining: ["BGOR", "BGOY"], history: history }, "BGOR", picker.minimax);
+        expect(few.candidates).to.deep.equal(["BGOR", "BGOY"]);
+        expect(few.runnersUp[0]).to.deep.equal({ guess: "BGOY", rating: 1, worst: 1, possible: true });
+    });
+});
@@ -0,0 +1,74 @@
+import * as chai from 'chai';
+var expect = chai.expect;
+
+import * as picker from '../dist/lib';
+import * as strategies from '../dist/strategies';
+
+describe('strategies', () => {
+    const rules = picker.lockChallenge;
+    const remaining = picker.getAllCombinations(rules);
+
+    it('should create every strategy by name', () => {
+        strategies.strategyNames.forEach(name => {
+            const strategy = strategies.createStrategy(name + ":all");
+            expect(strategy.name.indexOf(name)).to.equal(0);
+            expect(remaining).to.contain(strategy.nextGuess({ rules, remaining: remaining.slice(0, 20), history: [] }));
+        });
+        expect(strategies.createStrategy("minimax")).to.equal(picker.minimax);
+        expect(() => strategies.createStrategy("bogus")).to.throw();
+        expect(() => strategies.createStrategy("minimax:bogus")).to.throw();
+    });
+
+    it('should partition every remaining code into exactly one group', () => {
+        const sizes = picker.partition(rules, "PYGO", remaining);
+        expect(sizes.reduce((p, c) => p + c, 0)).to.equal(remaining.length);
+        expect(sizes.length).to.equal(picker.getAllPossibleScores(rules).length);
+    });
+
+    it('should break ties deterministically', () => {
+        const history = [{ guess: "PYGO", score: { white: 2, black: 1 } }];
+        const left = remaining.filter(c => picker.scoreEquals(picker.calculateScore(rules, c, "PYGO"), history[0].score));
+        strategies.strategyNames.forEach(name => {
+            const first = strategies.createStrategy(name).nextGuess({ rules, remaining: left, history });
+            const second = strategies.createStrategy(name).nextGuess({ rules, remaining: left, history });
+            expect(first).to.equal(second);
+            expect(left).to.contain(first);
+        });
+    });
+
+    it('should still guess when every code left has been guessed already', () => {
+        // with tolerance, a code that was guessed can stay in the running.
+        const left = ["YPOG", "OGYP"];
+        const history = left.map(guess => ({ guess, score: { white: 4, black: 0 } }));
+        expect(strategies.randomStrategy().nextGuess({ rules, remaining: left, history })).to.equal("YPOG");
+    });
+
+    it('should prefer a candidate that could be the answer when ratings tie', () => {
+        const strategy = picker.heuristicStrategy('constant', () => 0, 'all');
+        const left = ["YPOG", "OGYP"];
+        expect(strategy.nextGuess({ rules, remaining: left, history: [] })).to.equal("OGYP");
+    });
+
+    it('should explain why a guess was chosen', () => {
+        const history = [{ guess: "PYGO", score: { white: 2, black: 0 } }];
+        const left = picker.parePossibilities(rules, remaining, "PYGO", history[0].score);
+        const context = { rules, remaining: left, history };
+        strategies.strategyNames.forEach(name => {
+            const strategy = strategies.createStrategy(name);
+            const guess = strategy.nextGuess(context);
+            const explanation = picker.explainGuess(context, guess, strategy);
+            expect(explanation.remaining).to.equal(left.length);
+            expect(explanation.partition.reduce((p, c) => p + c.size, 0)).to.equal(left.length);
+            expect(explanation.runnersUp.length).to.equal(3);
+            expect(explanation.runnersUp.map(g => g.guess)).to.not.contain(guess);
+            expect(explanation.candidates).to.equal(undefined);
+            if (strategy.rank) {
+                expect(strategy.rank(context, 1)[0].guess).to.equal(guess);
+            }
+        });
+
+        const few = picker.explainGuess({ rules, remaining: ["BGOR", "BGOY"], history }, "BGOR", picker.minimax);
+        expect(few.candidates).to.deep.equal(["BGOR", "BGOY"]);
+        expect(few.runnersUp[0]).to.deep.equal({ guess: "BGOY", rating: 1, worst: 1, possible: true });
+    });
+});
@@ -0,0 +1,127 @@
+"use strict";
+var __awaiter = (this && this.__awaiter) || function (thisArg, _arguments, P, generator) {
+    return new (P || (P = Promise))(function (resolve, reject) {
+        function fulfilled(value) { try { step(generator.next(value)); } catch (e) { reject(e); } }
+        function rejected(value) { try { step(generator["throw"](value)); } catch (e) { reject(e); } }
+        function step(result) { result.done ? resolve(result.value) : new P(function (resolve) { resolve(result.value); }).then(fulfilled, rejected); }
+        step((generator = generator.apply(thisArg, _arguments || [])).next());
+    });
+};
+var __generator = (this && this.__generator) || function (thisArg, body) {
+    var _ = { label: 0, sent: function() { if (t[0] & 1) throw t[1]; return t[1]; }, trys: [], ops: [] }, f, y, t, g;
+    return g = { next: verb(0), "throw": verb(1), "return": verb(2) }, typeof Symbol === "function" && (g[Symbol.iterator] = function() { return this; }), g;
+    function verb(n) { return function (v) { return step([n, v]); }; }
+    function step(op) {
+        if (f) throw new TypeError("Generator is already executing.");
+        while (_) try {
+            if (f = 1, y && (t = y[op[0] & 2 ? "return" : op[0] ? "throw" : "next"]) && !(t = t.call(y, op[1])).done) return t;
+            if (y = 0, t) op = [0, t.value];
+            switch (op[0]) {
+                case 0: case 1: t = op; break;
+                case 4: _.label++; return { value: op[1], done: false };
+                case 5: _.label++; y = op[1]; op = [0]; continue;
+                case 7: op = _.ops.pop(); _.trys.pop(); continue;
+                default:
+                    if (!(t = _.trys, t = t.length > 0 && t[t.length - 1]) && (op[0] === 6 || op[0] === 2)) { _ = 0; continue; }
+                    if (op[0] === 3 && (!t || (op[1] > t[0] && op[1] < t[3]))) { _.label = op[1]; break; }
+                    if (op[0] === 6 && _.label < t[1]) { _.label = t[1]; t = op; break; }
+                    if (t && _.label < t[2]) { _.label = t[2]; _.ops.push(op); break; }
+                    if (t[2]) _.ops.pop();
+                    _.trys.pop(); continue;
+            }
+            op = body.call(thisArg, _);
+        } catch (e) { op = [6, e]; y = 0; } finally { f = t = 0; }
+        if (op[0] & 5) throw op[1]; return { value: op[0] ? op[1] : void 0, done: true };
+    }
+};
+var _this = this;
+Object.defineProperty(exports, "__esModule", { value: true });
+var chai = require("chai");
+var expect = chai.expect;
+var picker = require("../dist/lib");
+var session = require("../dist/session");
+var strategies = require("../dist/strategies");
+var transcript = require("../dist/transcript");
+describe('transcripts', function () {
+    var rules = picker.lockChallenge;
+    /** Plays a game against the secret, recording it. The first score is mistyped, and corrected. */
+    function record(secret, lines) {
+        return __awaiter(this, void 0, void 0, function () {
+            var delegates;
+            return __generator(this, function (_a) {
+                delegates = transcript.recordTranscript(rules, {}, {
+                    guess: function (guess) { return Promise.resolve(guess == "PYGO" ? { white: 0, black: 0 } : picker.calculateScore(rules, secret, guess)); },
+                    error: function (error) { throw error; },
+                    solved: function () { },
+                    contradiction: function (error) { return Promise.resolve({ index: error.turn.index, score: picker.calculateScore(rules, secret, error.turn.guess) }); }
+                }, function (line) { return lines.push(line); });
+                return [2 /*return*/, session.loop(rules, delegates)];
+            });
+        });
+    }
+    it('should record every guess, score and correction', function () { return __awaiter(_this, void 0, void 0, function () {
+        var lines, answer, games, entries;
+        return __generator(this, function (_a) {
+            switch (_a.label) {
+                case 0:
+                    lines = [];
+                    return [4 /*yield*/, record("OPGY", lines)];
+                case 1:
+                    answer = _a.sent();
+                    games = transcript.parseTranscripts(lines.join("\n") + "\n");
+                    expect(games.length).to.equal(1);
+                    entries = games[0];
+                    expect(entries[0]).to.deep.include({ type: 'start', strategy: 'minimax', opener: 'PYGO', tolerance: 0 });
+                    expect(entries[1]).to.deep.equal({ type: 'turn', guess: 'PYGO', score: { white: 0, black: 0 }, remaining: 360 });
+                    expect(entries.filter(function (e) { return e.type == 'correction'; }).length).to.equal(1);
+                    expect(entries[entries.length - 1]).to.deep.equal({ type: 'solved', answer: 'OPGY', attempts: answer.attempts });
+                    return [2 /*return*/];
+            }
+        });
+    }); });
+    it('should replay a game the same way', function () { return __awaiter(_this, void 0, void 0, function () {
+        var lines, games;
+        return __generator(this, function (_a) {
+            switch (_a.label) {
+                case 0:
+                    lines = [];
+                    return [4 /*yield*/, record("OPGY", lines)];
+                case 1:
+                    _a.sent();
+                    return [4 /*yield*/, record("YOBR", lines)];
+                case 2:
+                    _a.sent();
+                    games = transcript.parseTranscripts(lines.join("\n"));
+                    expect(games.length).to.equal(2);
+                    games.forEach(function (game) {
+                        var report = transcript.replay(game);
+                        expect(report.divergence).to.equal(undefined);
+                        expect(report.replayed).to.deep.equal(report.recorded);
+                    });
+                    return [2 /*return*/];
+            }
+        });
+    }); });
+    it('should report where another strategy diverges', function () { return __awaiter(_this, void 0, void 0, function () {
+        var lines, report;
+        return __generator(this, function (_a) {
+            switch (_a.label) {
+                case 0:
+                    lines = [];
+                    return [4 /*yield*/, record("YOBR", lines)];
+                case 1:
+                    _a.sent();
+                    report = transcript.replay(transcript.parseTranscripts(lines.join("\n"))[0], strategies.createStrategy("entropy"));
+                    expect(report.divergence).to.not.equal(undefined);
+                    expect(report.matched).to.equal(report.divergence.index);
+                    expect(report.divergence.replayed.guess).to.not.equal(report.divergence.recorded.guess);
+                    expect(report.replayed.answer).to.equal("YOBR");
+                    return [2 /*return*/];
+            }
+        });
+    }); });
+    it('should reject transcripts that are not well formed', function () {
+        expect(function () { return transcript.parseTranscripts('{"type":"turn"}'); }).to.throw(/before the start/);
+        expect(function () { return transcript.parseTranscripts('nope'); }).to.throw(/valid JSON/);
+    });
+});
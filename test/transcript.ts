@@ -0,0 +1,63 @@
+import * as chai from 'chai';
+var expect = chai.expect;
+
+import * as picker from '../dist/lib';
+import * as session from '../dist/session';
+import * as strategies from '../dist/strategies';
+import * as transcript from '../dist/transcript';
+
+describe('transcripts', () => {
+    const rules = picker.lockChallenge;
+
+    /** Plays a game against the secret, recording it. The first score is mistyped, and corrected. */
+    async function record(secret: string, lines: string[]) {
+        const delegates = transcript.recordTranscript(rules, {}, {
+            guess: guess => Promise.resolve(guess == "PYGO" ? { white: 0, black: 0 } : picker.calculateScore(rules, secret, guess)),
+            error: error => { throw error; },
+            solved: () => { },
+            contradiction: error => Promise.resolve({ index: error.turn.index, score: picker.calculateScore(rules, secret, error.turn.guess) })
+        }, line => lines.push(line));
+        return session.loop(rules, delegates);
+    }
+
+    it('should record every guess, score and correction', async () => {
+        const lines: string[] = [];
+        const answer = await record("OPGY", lines);
+        const games = transcript.parseTranscripts(lines.join("\n") + "\n");
+        expect(games.length).to.equal(1);
+
+        const entries = games[0];
+        expect(entries[0]).to.deep.include({ type: 'start', strategy: 'minimax', opener: 'PYGO', tolerance: 0 });
+        expect(entries[1]).to.deep.equal({ type: 'turn', guess: 'PYGO', score: { white: 0, black: 0 }, remaining: 360 });
+        expect(entries.filter(e => e.type == 'correction').length).to.equal(1);
+        expect(entries[entries.length - 1]).to.deep.equal({ type: 'solved', answer: 'OPGY', attempts: answer!.attempts });
+    });
+
+    it('should replay a game the same way', async () => {
+        const lines: string[] = [];
+        await record("OPGY", lines);
+        await record("YOBR", lines);
+        const games = transcript.parseTranscripts(lines.join("\n"));
+        expect(games.length).to.equal(2);
+        games.forEach(game => {
+            const report = transcript.replay(game);
+            expect(report.divergence).to.equal(undefined);
+            expect(report.replayed).to.deep.equal(report.recorded);
+        });
+    });
+
+    it('should report where another strategy diverges', async () => {
+        const lines: string[] = [];
+        await record("YOBR", lines);
+        const report = transcript.replay(transcript.parseTranscripts(lines.join("\n"))[0], strategies.createStrategy("entropy"));
+        expect(report.divergence).to.not.equal(undefined);
+        expect(report.matched).to.equal(report.divergence!.index);
+        expect(report.divergence!.replayed.guess).to.not.equal(report.divergence!.recorded.guess);
+        expect(report.replayed!.answer).to.equal("YOBR");
+    });
+
+    it('should reject transcripts that are not well formed', () => {
+        expect(() => transcript.parseTranscripts('{"type":"turn"}')).to.throw(/before the start/);
+        expect(() => transcript.parseTranscripts('nope')).to.throw(/valid JSON/);
+    });
+});